@@ -0,0 +1,49 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findAssetUrls, replaceAssetUrls, resolveAsset } from '../assets';
+
+describe('assets', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'css-to-variable-assets-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should find image and remote urls but skip data URIs', () => {
+    expect(findAssetUrls('url(a.png) no-repeat, url("b.svg?x=1"), url(data:image/png;base64,AA==), url(font.woff2)'))
+      .toEqual(['a.png', 'b.svg?x=1']);
+    expect(findAssetUrls('url(//cdn.example.com/a)')).toEqual(['//cdn.example.com/a']);
+  });
+
+  it('should replace only the matched urls', () => {
+    expect(replaceAssetUrls('url(a.png) no-repeat, url(b.png)', url => url === 'a.png' ? 'var(--img-a)' : undefined))
+      .toBe('var(--img-a) no-repeat, url(b.png)');
+  });
+
+  it('should inline small images and reference large ones by path', async () => {
+    fs.mkdirSync(path.join(dir, 'img'));
+    fs.writeFileSync(path.join(dir, 'img/Icon Small.svg'), '<svg/>');
+    fs.writeFileSync(path.join(dir, 'img/large.jpg'), Buffer.alloc(20));
+    const options = { inlineLimit: 10, remote: false, outputDir: dir };
+    const from = path.join(dir, 'img/a.css');
+
+    const small = await resolveAsset('Icon Small.svg', from, options);
+    expect(small).toMatchObject({ name: 'icon-small', value: `url(data:image/svg+xml;base64,${Buffer.from('<svg/>').toString('base64')})` });
+    expect(small!.key).toBe(small!.hash);
+
+    expect(await resolveAsset('./large.jpg?v=2', from, options)).toMatchObject({ name: 'large', value: "url('./img/large.jpg')" });
+    expect(await resolveAsset('missing.png', from, options)).toBeNull();
+  });
+
+  it('should reference remote urls only when enabled', async () => {
+    const options = { inlineLimit: 0, remote: false, outputDir: dir };
+    expect(await resolveAsset('https://cdn.example.com/a.png', dir, options)).toBeNull();
+    expect(await resolveAsset('https://cdn.example.com/a.png', dir, { ...options, remote: true }))
+      .toMatchObject({ key: 'https://cdn.example.com/a.png', name: 'a', value: "url('https://cdn.example.com/a.png')" });
+  });
+});
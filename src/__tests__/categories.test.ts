@@ -0,0 +1,46 @@
+import { getCategoryKey, getCategoryProperties, getTokenCategory, isTokenValue, mapLengths, snapToScale } from '../categories';
+
+describe('categories', () => {
+  it('should find the category of a property among the enabled categories', () => {
+    expect(getTokenCategory('padding-top', ['spacing', 'radius'])).toBe('spacing');
+    expect(getTokenCategory('font-size', ['spacing'])).toBeUndefined();
+    expect(getCategoryProperties(['z-index', 'font-weight'])).toEqual(['z-index', 'font-weight']);
+  });
+
+  it('should convert lengths between px and rem', () => {
+    expect(mapLengths('8px 0 12px', 'rem', 16)).toBe('0.5rem 0 0.75rem');
+    expect(mapLengths('0 2px 4px rgba(0, 0, 0, 0.1)', 'rem', 10)).toBe('0 0.2rem 0.4rem rgba(0, 0, 0, 0.1)');
+    expect(mapLengths('1.5rem', 'px', 16)).toBe('24px');
+    expect(mapLengths('calc(100% - 0px)', 'rem', 16)).toBe('calc(100% - 0px)');
+    // calc() 中的长度不换算
+    expect(mapLengths('8px calc(100% - 10px)', 'rem', 16)).toBe('0.5rem calc(100% - 10px)');
+  });
+
+  it('should snap lengths to a step or a list of values', () => {
+    expect(snapToScale(6, 4)).toBe(8);
+    expect(snapToScale(13, 4)).toBe(12);
+    expect(snapToScale(-10, [0, 4, 8, 12])).toBe(-8);
+    expect(snapToScale(10, [])).toBe(10);
+  });
+
+  it('should skip keywords and context-dependent functions', () => {
+    for (const value of ['inherit', 'initial', 'unset', 'revert', 'none', 'auto', '0 auto', 'calc(100% - 10px)', 'var(--gap)', 'clamp(1rem, 2vw, 2rem)']) {
+      expect(isTokenValue(value)).toBe(false);
+    }
+    expect(isTokenValue('8px 16px')).toBe(true);
+    expect(isTokenValue('0 2px 4px rgba(0, 0, 0, 0.1)')).toBe(true);
+  });
+
+  it('should name values by pixels, scale steps or keywords', () => {
+    expect(getCategoryKey('spacing', '1rem', 16)).toBe('16');
+    expect(getCategoryKey('spacing', '8px 16px', 16, 4)).toBe('2-4');
+    expect(getCategoryKey('spacing', '-6px', 16, 4)).toBe('n1_5');
+    expect(getCategoryKey('radius', '50%', 16, 4)).toBe('50pct');
+    expect(getCategoryKey('font-size', '1.25em', 16)).toBe('1_25em');
+    expect(getCategoryKey('font-size', '14px', 16, 4)).toBe('14');
+    expect(getCategoryKey('font-weight', 'bold', 16)).toBe('bold');
+    expect(getCategoryKey('z-index', '-1', 16)).toBe('n1');
+    expect(getCategoryKey('font-weight', 'semi--bold', 16)).toBe('semi-bold');
+    expect(getCategoryKey('shadow', '0 1px 2px #000', 16)).toBe('');
+  });
+});
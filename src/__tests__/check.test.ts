@@ -0,0 +1,29 @@
+import { formatViolations } from '../check';
+import type { CheckViolation } from '../index';
+
+describe('check', () => {
+  const violations: CheckViolation[] = [
+    { filePath: 'styles/a.css', line: 1, column: 13, property: 'color', value: '#fff' },
+    { filePath: 'styles/a.css', line: 2, column: 7, property: 'background', value: 'url("a<b>.png")' }
+  ];
+
+  it('should format a human readable table', () => {
+    expect(formatViolations([], 'table')).toBe('✅ 未发现需要提取为变量的字面值');
+    const table = formatViolations(violations, 'table').split('\n');
+    expect(table[2]).toBe('styles/a.css:1:13  color       #fff');
+    expect(table[table.length - 1]).toBe('❌ 共发现 2 处字面值，分布在 1 个文件中');
+  });
+
+  it('should format SARIF and checkstyle reports', () => {
+    const sarif = JSON.parse(formatViolations(violations, 'sarif'));
+    expect(sarif.version).toBe('2.1.0');
+    expect(sarif.runs[0].results[0].locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: 'styles/a.css' },
+      region: { startLine: 1, startColumn: 13 }
+    });
+
+    const checkstyle = formatViolations(violations, 'checkstyle');
+    expect(checkstyle).toContain('<file name="styles/a.css">');
+    expect(checkstyle).toContain('line="2" column="7" severity="error" message="属性 background 使用了字面值 url(&quot;a&lt;b&gt;.png&quot;)，应改为CSS变量"');
+  });
+});
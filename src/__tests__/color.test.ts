@@ -0,0 +1,47 @@
+import { normalizeValue, parseColor, replaceColorTokens, toHex } from '../color';
+
+describe('color', () => {
+  it('should parse hex, rgb, hsl and named colors', () => {
+    expect(parseColor('#FFF')).toEqual({ r: 255, g: 255, b: 255, a: 1 });
+    expect(parseColor('#0D3376')).toEqual({ r: 13, g: 51, b: 118, a: 1 });
+    expect(parseColor('rgba(0, 255, 0, 0.5)')).toEqual({ r: 0, g: 255, b: 0, a: 0.5 });
+    expect(parseColor('rgb(0 0 0 / 50%)')).toEqual({ r: 0, g: 0, b: 0, a: 0.5 });
+    expect(parseColor('hsl(0, 100%, 50%)')).toEqual({ r: 255, g: 0, b: 0, a: 1 });
+    expect(parseColor('White')).toEqual({ r: 255, g: 255, b: 255, a: 1 });
+    expect(parseColor('linear-gradient(#fff, #000)')).toBeNull();
+    expect(parseColor('transparent')).toBeNull();
+  });
+
+  it('should convert colors to hex', () => {
+    expect(toHex({ r: 255, g: 0, b: 0, a: 1 })).toBe('#ff0000');
+    expect(toHex({ r: 0, g: 0, b: 0, a: 0.5 })).toBe('#00000080');
+  });
+
+  it('should normalize equivalent notations to the same value', () => {
+    expect(normalizeValue('#FFF')).toBe('#ffffff');
+    expect(normalizeValue('#ffffff')).toBe('#ffffff');
+    expect(normalizeValue('rgb(255,255,255)')).toBe('#ffffff');
+    expect(normalizeValue('linear-gradient(to right, #FFF,  #000)')).toBe('linear-gradient(to right,#fff,#000)');
+    expect(normalizeValue('1PX SOLID Red')).toBe('1px solid red');
+  });
+
+  it('should keep the case of strings, font names and url() paths', () => {
+    expect(normalizeValue('"Open Sans", Arial')).toBe('"Open Sans",Arial');
+    expect(normalizeValue('"Open Sans"')).not.toBe(normalizeValue('"open sans"'));
+    expect(normalizeValue('Helvetica')).not.toBe(normalizeValue('helvetica'));
+    expect(normalizeValue('URL(Images/Logo.png)')).toBe('url(Images/Logo.png)');
+    expect(normalizeValue('url(a.PNG)')).not.toBe(normalizeValue('url(a.png)'));
+    expect(normalizeValue('Helvetica, SANS-SERIF')).toBe('Helvetica,sans-serif');
+    expect(normalizeValue('rgb(0 0 0 / 50%)  Inset')).toBe('rgb(0 0 0 / 50%) inset');
+  });
+
+  it('should replace only color tokens inside shorthand values', () => {
+    const replace = (value: string) => replaceColorTokens(value, token => `<${token}>`).value;
+    expect(replace('#0D3376 url(a.png) no-repeat')).toBe('<#0D3376> url(a.png) no-repeat');
+    expect(replace('linear-gradient(to right, #ff0000, rgba(0, 255, 0, 0.5))')).toBe('linear-gradient(to right, <#ff0000>, <rgba(0, 255, 0, 0.5)>)');
+    expect(replace('0 1px 2px rgba(0,0,0,.2), inset 0 0 0 1px white')).toBe('0 1px 2px <rgba(0,0,0,.2)>, inset 0 0 0 1px <white>');
+    expect(replace('1px solid currentColor')).toBe('1px solid currentColor');
+    expect(replaceColorTokens('transparent none inherit var(--a, red)', token => token).changed).toBe(false);
+    expect(replace('rgba($brand, .5)')).toBe('rgba($brand, .5)');
+  });
+});
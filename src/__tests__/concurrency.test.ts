@@ -0,0 +1,41 @@
+import { processInOrder } from '../concurrency';
+
+describe('concurrency', () => {
+  const delay = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+  it('should load ahead with bounded concurrency and consume in order', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const consumed: number[] = [];
+
+    await processInOrder([30, 5, 20, 1, 10], 2, async (ms) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await delay(ms);
+      running--;
+      return ms;
+    }, async (result, item, index) => {
+      expect(result).toBe(item);
+      consumed.push(index);
+    });
+
+    expect(consumed).toEqual([0, 1, 2, 3, 4]);
+    expect(maxRunning).toBe(2);
+  });
+
+  it('should reject with the first failure in order without unhandled rejections', async () => {
+    const consumed: number[] = [];
+    const load = async (item: number): Promise<number> => {
+      await delay(item === 2 ? 0 : 10);
+      if (item >= 2) {
+        throw new Error(`failed ${item}`);
+      }
+      return item;
+    };
+
+    await expect(processInOrder([1, 2, 3], 3, load, async (result) => {
+      consumed.push(result);
+    })).rejects.toThrow('failed 2');
+    expect(consumed).toEqual([1]);
+  });
+});
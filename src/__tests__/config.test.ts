@@ -0,0 +1,68 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { findConfigFile, loadConfig, resolveConfig, validateConfig } from '../config';
+
+describe('config', () => {
+  const testDir = path.join(__dirname, 'fixtures-config');
+
+  beforeEach(() => {
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should report every invalid field', () => {
+    expect(() => validateConfig({
+      directory: 1,
+      preset: ['colors', 'nope'],
+      dedupe: 'all',
+      unknown: true,
+      overrides: { legacy: { prefix: 1 } }
+    })).toThrow([
+      '配置 校验失败：',
+      '  - directory: 应为字符串',
+      '  - preset: 未知预设 "nope"，可选：colors, borders, spacing, typography',
+      '  - dedupe: 应为 true | false | "property" | "global" 之一',
+      '  - unknown: 未知配置项',
+      '  - overrides["legacy"].prefix: 应为字符串'
+    ].join('\n'));
+  });
+
+  it('should find and load config files relative to their location', () => {
+    expect(findConfigFile(testDir)).toBeUndefined();
+    const configPath = path.join(testDir, 'css-to-variable.config.json');
+    fs.writeFileSync(configPath, JSON.stringify({ directory: './src', preset: 'colors' }));
+
+    expect(findConfigFile(testDir)).toBe(configPath);
+    expect(loadConfig(configPath)).toEqual({ directory: path.join(testDir, 'src'), preset: 'colors' });
+  });
+
+  it('should load and validate CommonJS and compiled ES module configs', () => {
+    const commonJsPath = path.join(testDir, 'css-to-variable.config.js');
+    fs.writeFileSync(commonJsPath, "module.exports = { directory: './src', prefix: 'app' };");
+    expect(loadConfig(commonJsPath)).toEqual({ directory: path.join(testDir, 'src'), prefix: 'app' });
+
+    const esModulePath = path.join(testDir, 'css-to-variable.config.cjs');
+    fs.writeFileSync(esModulePath, "Object.defineProperty(exports, '__esModule', { value: true });\nexports.default = { prefix: 1 };");
+    expect(() => loadConfig(esModulePath)).toThrow('配置文件 css-to-variable.config.cjs 校验失败：\n  - prefix: 应为字符串');
+  });
+
+  it('should merge layers and expand presets', () => {
+    const resolved = resolveConfig(
+      { preset: 'colors', prefix: '' },
+      { preset: 'spacing', properties: ['border-color'], overrides: { legacy: { preset: 'colors', prefix: 'legacy' } } },
+      { prefix: 'theme', dryRun: undefined }
+    );
+
+    expect(resolved.prefix).toBe('theme');
+    expect(resolved.properties).toEqual(expect.arrayContaining(['margin', 'padding', 'border-color']));
+    expect(resolved.properties).not.toContain('color');
+    expect(resolved.overrides?.legacy.properties).toContain('background-color');
+    expect(resolved).not.toHaveProperty('dryRun');
+
+    // 命令行只指定 properties 时替换配置文件中的预设
+    expect(resolveConfig({ preset: 'colors' }, { properties: ['color'] }).properties).toEqual(['color']);
+  });
+});
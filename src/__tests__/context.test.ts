@@ -0,0 +1,43 @@
+import postcss from 'postcss';
+import postcssScss from 'postcss-scss';
+import { contextSuffix, DefaultBreakpoints, getDeclarationContext, getSelectorName, isSkippedContext, mediaSuffix, resolveContextRules } from '../context';
+
+describe('context', () => {
+  const firstDecl = (css: string): postcss.Declaration => {
+    let decl!: postcss.Declaration;
+    postcssScss.parse(css).walkDecls((item) => {
+      decl = decl || item;
+    });
+    return decl;
+  };
+
+  it('should detect keyframes, :root and @font-face contexts', () => {
+    const rules = resolveContextRules();
+    expect(isSkippedContext(getDeclarationContext(firstDecl('@keyframes fade { from { color: red; } }')), rules)).toBe(true);
+    expect(isSkippedContext(getDeclarationContext(firstDecl(':root, html { color: red; }')), rules)).toBe(true);
+    expect(isSkippedContext(getDeclarationContext(firstDecl('@font-face { src: url(a.woff); }')), rules)).toBe(true);
+    expect(isSkippedContext(getDeclarationContext(firstDecl(':root .a, .b { color: red; }')), rules)).toBe(false);
+    expect(isSkippedContext(getDeclarationContext(firstDecl(':root { color: red; }')), resolveContextRules({ root: 'extract' }))).toBe(false);
+  });
+
+  it('should name media queries after breakpoints', () => {
+    expect(mediaSuffix('(min-width: 768px)', DefaultBreakpoints)).toBe('md');
+    expect(mediaSuffix('screen and (max-width: 767px)', DefaultBreakpoints)).toBe('max-md');
+    expect(mediaSuffix('(prefers-color-scheme: dark)', DefaultBreakpoints)).toBe('dark');
+    expect(mediaSuffix('print', DefaultBreakpoints)).toBe('print');
+    expect(mediaSuffix('(min-width: 900px)', DefaultBreakpoints)).toBe('min-900');
+  });
+
+  it('should build state and media suffixes from the enclosing rules', () => {
+    const decl = firstDecl('@media (min-width: 1024px) { .btn { &:hover { color: red; } } }');
+    expect(contextSuffix(getDeclarationContext(decl), resolveContextRules())).toBe('-hover-lg');
+    expect(contextSuffix(getDeclarationContext(decl), resolveContextRules({ mediaSuffix: false }))).toBe('-hover');
+  });
+
+  it('should name rules by class, id, element, :global() and BEM suffixes', () => {
+    expect(getSelectorName(firstDecl('#header { color: red; }'))).toBe('header');
+    expect(getSelectorName(firstDecl('button:hover { color: red; }'))).toBe('button');
+    expect(getSelectorName(firstDecl(':global(#app) { color: red; }'))).toBe('app');
+    expect(getSelectorName(firstDecl('.card { &__title { &--active { color: red; } } }'))).toBe('card__title--active');
+  });
+});
@@ -0,0 +1,50 @@
+import postcss from 'postcss';
+import postcssScss from 'postcss-scss';
+import { collectIgnoredNodes, isIgnored, isSelectorAllowed, isValueAllowed } from '../filters';
+
+describe('filters', () => {
+  const ignoredProps = (css: string): string[] => {
+    const root = postcssScss.parse(css);
+    const ignored = collectIgnoredNodes(root);
+    const props: string[] = [];
+    root.walkDecls((decl) => {
+      if (isIgnored(decl, ignored)) {
+        props.push(decl.prop);
+      }
+    });
+    return props;
+  };
+
+  it('should honor ignore comments on the same line, the next line and whole blocks', () => {
+    expect(ignoredProps([
+      '.a {',
+      '  color: red; /* css-to-variable-ignore */',
+      '  /* css-to-variable-ignore-next-line */',
+      '  background: red;',
+      '  border-color: red;',
+      '}',
+      '.b { /* css-to-variable-ignore */ outline-color: red; .c { fill: red; } }'
+    ].join('\n'))).toEqual(['color', 'background', 'outline-color', 'fill']);
+
+    expect(ignoredProps('/* css-to-variable-ignore */\n.a { color: red; }\n.b { fill: red; }')).toEqual(['color', 'fill']);
+  });
+
+  it('should filter by any enclosing selector with exclude taking precedence', () => {
+    const root = postcssScss.parse('.el-button { .icon { color: red; } }');
+    let decl!: postcss.Declaration;
+    root.walkDecls((item) => {
+      decl = item;
+    });
+    expect(isSelectorAllowed(decl, [], ['^\\.el-'])).toBe(false);
+    expect(isSelectorAllowed(decl, ['icon'], [])).toBe(true);
+    expect(isSelectorAllowed(decl, [/^\.page/], [])).toBe(false);
+    expect(isSelectorAllowed(decl, ['icon'], ['button'])).toBe(false);
+  });
+
+  it('should filter values by allow and deny patterns', () => {
+    expect(isValueAllowed('#fff', ['^#'], [])).toBe(true);
+    expect(isValueAllowed('red', ['^#'], [])).toBe(false);
+    expect(isValueAllowed('#fff', [], [/^#fff$/i])).toBe(false);
+    expect(isValueAllowed('red', [], [])).toBe(true);
+  });
+});
@@ -0,0 +1,33 @@
+import { defaultFormatters } from '../formats';
+
+describe('formats', () => {
+  const variables = [
+    { name: '--primary', value: '#0D3376', property: 'color' },
+    { name: '--gap', value: '8px', property: 'margin' },
+    { name: '--shadow', value: '0 0 1px #000, 0 0 2px red', property: 'box-shadow' }
+  ];
+  const render = (name: string): string => defaultFormatters.find(formatter => formatter.name === name)!.render(variables);
+
+  it('should render W3C design tokens with inferred types', () => {
+    const tokens = JSON.parse(render('dtcg'));
+    expect(tokens.primary).toEqual({ $type: 'color', $value: '#0D3376' });
+    expect(tokens.gap).toEqual({ $type: 'dimension', $value: '8px' });
+    expect(tokens.shadow).toEqual({ $value: '0 0 1px #000, 0 0 2px red' });
+  });
+
+  it('should render SCSS aliases and a $tokens map', () => {
+    const content = render('scss');
+    expect(content).toContain('$primary: var(--primary);');
+    expect(content).toContain("  'gap': 8px,\n  'shadow': (0 0 1px #000, 0 0 2px red)\n);");
+  });
+
+  it('should render a TS module and a Tailwind color fragment', () => {
+    expect(render('ts')).toContain("  '--primary': \"#0D3376\",\n  '--gap': \"8px\"");
+    expect(render('tailwind')).toContain('"colors": {\n        "primary": "var(--primary)"\n      }');
+  });
+
+  it('should derive file names from the output file', () => {
+    expect(defaultFormatters.map(formatter => formatter.fileName('theme/vars.css')))
+      .toEqual(['theme/vars.tokens.json', 'theme/vars.scss', 'theme/vars.ts', 'theme/vars.tailwind.js']);
+  });
+});
@@ -0,0 +1,55 @@
+import postcss from 'postcss';
+import postcssScss from 'postcss-scss';
+import { formatImportParams, getImportRuleName, getImportSpecifier, injectImport, removeImport } from '../imports';
+
+describe('imports', () => {
+  const fromFile = '/project/src/components/button.scss';
+  const targetFile = '/project/src/variables.css';
+
+  it('should build relative or aliased specifiers and @use/@import params', () => {
+    expect(getImportSpecifier(fromFile, targetFile)).toBe('../variables.css');
+    expect(getImportSpecifier('/project/src/app.css', targetFile)).toBe('./variables.css');
+    expect(getImportSpecifier(fromFile, targetFile, '~@/variables.css')).toBe('~@/variables.css');
+    expect(getImportRuleName(postcssScss)).toBe('use');
+    expect(getImportRuleName()).toBe('import');
+    expect(formatImportParams('use', '../variables.css')).toBe('"../variables"');
+    expect(formatImportParams('import', '../variables.css')).toBe('url("../variables.css")');
+  });
+
+  it('should insert after leading imports and skip existing imports of the same file', () => {
+    const root = postcssScss.parse('@use "sass:math";\n.a { color: red; }');
+    expect(injectImport(root, fromFile, targetFile, { name: 'use', specifier: '../variables.css' })).toBe('"../variables"');
+    expect(root.toString(postcssScss)).toBe('@use "sass:math";\n@use "../variables";\n.a { color: red; }');
+
+    for (const existing of ['@use "../variables.css";', '@import url(\'../variables.css\');', '@use "~@/variables" as *;']) {
+      const css = `${existing}\n.a { color: red; }`;
+      const imported = postcssScss.parse(css);
+      expect(injectImport(imported, fromFile, targetFile, { name: 'use', specifier: existing.includes('~@') ? '~@/variables.css' : '../variables.css' })).toBeNull();
+      expect(imported.toString(postcssScss)).toBe(css);
+    }
+  });
+
+  it('should insert @use before the first @import', () => {
+    const root = postcssScss.parse('@charset "utf-8";\n@import "mixins";\n.a { color: red; }');
+    expect(injectImport(root, fromFile, targetFile, { name: 'use', specifier: '../variables.css' })).toBe('"../variables"');
+    expect(root.toString(postcssScss)).toBe('@charset "utf-8";\n@use "../variables";\n@import "mixins";\n.a { color: red; }');
+
+    const first = postcssScss.parse('@import "mixins";\n.a { color: red; }');
+    injectImport(first, fromFile, targetFile, { name: 'use', specifier: '../variables.css' });
+    expect(first.toString(postcssScss)).toBe('@use "../variables";\n@import "mixins";\n.a { color: red; }');
+
+    // 后面的 @import 已引入同一文件时不重复添加
+    expect(injectImport(postcssScss.parse('@import "mixins";\n@import "../variables.css";'), fromFile, targetFile, { name: 'use', specifier: '../variables.css' })).toBeNull();
+  });
+
+  it('should prepend to the first node and restore the original whitespace on removal', () => {
+    const css = '.a { color: red; }\n';
+    const root = postcss.parse(css);
+    const params = injectImport(root, '/project/src/app.css', targetFile, { name: 'import', specifier: './variables.css' })!;
+    expect(root.toString()).toBe('@import url("./variables.css");\n.a { color: red; }\n');
+
+    expect(removeImport(root, 'import', params)).toBe(true);
+    expect(root.toString()).toBe(css);
+    expect(removeImport(root, 'import', params)).toBe(false);
+  });
+});
@@ -140,4 +140,755 @@ describe('CssToVariable', () => {
     const variablesContent = fs.readFileSync(variablesPath, 'utf-8');
     expect(variablesContent).toContain('--var-styles-color');
   });
-});
\ No newline at end of file
+
+  it('should preview changes without writing files in dryRun mode', async () => {
+    const testCssPath = path.join(stylesDir, 'test.css');
+    const testCssContent = '.test { color: #ff0000; }';
+    fs.writeFileSync(testCssPath, testCssContent);
+
+    const cssToVariable = new CssToVariable({
+      directory: testDir,
+      properties: ['color'],
+      dryRun: true
+    });
+
+    await cssToVariable.extract();
+
+    // 验证没有写入任何文件
+    expect(fs.readFileSync(testCssPath, 'utf-8')).toBe(testCssContent);
+    expect(fs.existsSync(path.join(testDir, outputFile))).toBe(false);
+
+    // 验证差异内容
+    const diffs = cssToVariable.getFileDiffs();
+    expect(diffs).toHaveLength(3);
+    expect(diffs[0].diff).toContain('--- a/styles/test.css');
+    expect(diffs[0].diff).toContain('-.test { color: #ff0000; }');
+    expect(diffs[0].diff).toContain('+.test { color: var(--styles-test-c); }');
+    expect(diffs[1].isNew).toBe(true);
+    expect(diffs[1].diff).toContain('+++ b/variables.css');
+  });
+
+  it('should reuse one variable for equivalent values when dedupe is enabled', async () => {
+    fs.writeFileSync(path.join(stylesDir, 'a.css'), '.a { color: #FFF; background-color: #fff; }');
+    fs.writeFileSync(path.join(stylesDir, 'b.css'), '.b { color: #ffffff; } .c { color: rgb(255, 255, 255); }');
+
+    const cssToVariable = new CssToVariable({
+      directory: testDir,
+      properties: ['color', 'background-color'],
+      dedupe: 'global'
+    });
+
+    await cssToVariable.extract();
+
+    // 文件处理顺序不固定，只验证所有声明共用同一个变量
+    const variablesContent = fs.readFileSync(path.join(testDir, outputFile), 'utf-8');
+    const names = variablesContent.match(/--[\w-]+(?=:)/g)!;
+    expect(names).toHaveLength(1);
+    expect(fs.readFileSync(path.join(stylesDir, 'a.css'), 'utf-8')).toBe(`.a { color: var(${names[0]}); background-color: var(${names[0]}); }`);
+    expect(fs.readFileSync(path.join(stylesDir, 'b.css'), 'utf-8')).toBe(`.b { color: var(${names[0]}); } .c { color: var(${names[0]}); }`);
+
+    const report = cssToVariable.getVariableReport();
+    expect(report).toHaveLength(1);
+    expect(report[0].usageCount).toBe(4);
+  });
+
+  it('should only dedupe within the same property in property mode', async () => {
+    fs.writeFileSync(path.join(stylesDir, 'a.css'), '.a { color: #fff; background-color: #FFF; } .b { color: #ffffff; }');
+
+    const cssToVariable = new CssToVariable({
+      directory: testDir,
+      properties: ['color', 'background-color'],
+      dedupe: true
+    });
+
+    await cssToVariable.extract();
+
+    const variablesContent = fs.readFileSync(path.join(testDir, outputFile), 'utf-8');
+    expect(variablesContent.match(/--[\w-]+:/g)).toEqual(['--styles-a-c:', '--styles-a-bc:']);
+  });
+
+  it('should restore original values from the manifest', async () => {
+    const testCssPath = path.join(stylesDir, 'test.scss');
+    const testCssContent = `
+      .a {
+        color: #ff0000;
+        background: linear-gradient(
+          to right, #ff0000, #00ff00
+        );
+      }
+      .b { color: #FF0000; }
+    `;
+    fs.writeFileSync(testCssPath, testCssContent);
+
+    const cssToVariable = new CssToVariable({
+      directory: testDir,
+      properties: ['color', 'background'],
+      exportMap: true,
+      dedupe: true
+    });
+    await cssToVariable.extract();
+
+    const manifestPath = path.join(testDir, 'css-to-variable.manifest.json');
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+    expect(manifest.replacements).toHaveLength(3);
+    expect(manifest.replacements[0]).toMatchObject({ filePath: 'styles/test.scss', line: 3, value: '#ff0000' });
+    expect(manifest.generatedFiles).toEqual(['variables.css', 'variables.map.json']);
+
+    await new CssToVariable({ directory: testDir, properties: [] }).restore();
+
+    expect(fs.readFileSync(testCssPath, 'utf-8')).toBe(testCssContent);
+    expect(fs.existsSync(path.join(testDir, outputFile))).toBe(false);
+    expect(fs.existsSync(path.join(testDir, 'variables.map.json'))).toBe(false);
+    expect(fs.existsSync(manifestPath)).toBe(false);
+  });
+
+  it('should inline var() references using a variables file', async () => {
+    fs.writeFileSync(path.join(testDir, 'tokens.css'), ':root { --primary: #0d3376; --text: var(--primary); }');
+    const testCssPath = path.join(stylesDir, 'test.css');
+    fs.writeFileSync(testCssPath, '.a { color: var(--text); border: 1px solid var(--border, #eee); --local: var(--primary); }');
+
+    const cssToVariable = new CssToVariable({
+      directory: testDir,
+      properties: [],
+      pattern: 'styles/**/*.css',
+      variableFiles: ['tokens.css']
+    });
+    await cssToVariable.inline();
+
+    expect(fs.readFileSync(testCssPath, 'utf-8')).toBe('.a { color: #0d3376; border: 1px solid #eee; --local: var(--primary); }');
+  });
+
+  it('should generate theme blocks and report missing theme values', async () => {
+    fs.writeFileSync(path.join(stylesDir, 'test.css'), '.test { color: #0D3376; background-color: #fff; }');
+
+    const cssToVariable = new CssToVariable({
+      directory: testDir,
+      properties: ['color', 'background-color'],
+      themes: { dark: { '--styles-test-c': '#ffffff' } }
+    });
+    await cssToVariable.extract();
+
+    const variablesContent = fs.readFileSync(path.join(testDir, outputFile), 'utf-8');
+    expect(variablesContent).toContain('[data-theme="dark"] {\n  --styles-test-c: #ffffff;\n}');
+    expect(variablesContent).toContain('@media (prefers-color-scheme: dark)');
+    expect(cssToVariable.getMissingThemeValues()).toEqual({ dark: ['--styles-test-bc'] });
+  });
+
+  it('should convert SCSS variables into custom properties', async () => {
+    fs.writeFileSync(path.join(stylesDir, '_variables.scss'), '$brand: #0D3376;\n$primary: $brand !default;\n$dark: darken($brand, 10%);\n');
+    const testScssPath = path.join(stylesDir, 'test.scss');
+    fs.writeFileSync(testScssPath, '.a { color: $primary; background-color: $dark; border-color: $brand; }');
+
+    const cssToVariable = new CssToVariable({
+      directory: testDir,
+      properties: ['color', 'background-color'],
+      scssVariables: true
+    });
+    await cssToVariable.extract();
+
+    const variablesContent = fs.readFileSync(path.join(testDir, outputFile), 'utf-8');
+    expect(variablesContent).toContain('--brand: #0D3376;');
+    expect(variablesContent).toContain('--primary: #0D3376;');
+    expect(variablesContent).not.toContain('--dark');
+    expect(fs.readFileSync(testScssPath, 'utf-8')).toBe('.a { color: var(--primary); background-color: $dark; border-color: $brand; }');
+
+    await new CssToVariable({ directory: testDir, properties: [] }).restore();
+    expect(fs.readFileSync(testScssPath, 'utf-8')).toBe('.a { color: $primary; background-color: $dark; border-color: $brand; }');
+  });
+
+  it('should replace only color tokens in token value mode', async () => {
+    const testCssPath = path.join(stylesDir, 'test.css');
+    fs.writeFileSync(testCssPath, '.a { background: #0D3376 url(a.png) no-repeat; border: 1px solid transparent; box-shadow: 0 1px 2px rgba(0, 0, 0, .2), 0 0 0 1px #0d3376; }');
+
+    const cssToVariable = new CssToVariable({
+      directory: testDir,
+      properties: ['background', 'border', 'box-shadow'],
+      valueMode: 'token',
+      dedupe: 'global'
+    });
+    await cssToVariable.extract();
+
+    expect(fs.readFileSync(testCssPath, 'utf-8')).toBe('.a { background: var(--styles-a-bg) url(a.png) no-repeat; border: 1px solid transparent; box-shadow: 0 1px 2px var(--styles-a-box-shadow), 0 0 0 1px var(--styles-a-bg); }');
+    const variablesContent = fs.readFileSync(path.join(testDir, outputFile), 'utf-8');
+    expect(variablesContent).toContain('--styles-a-bg: #0D3376;');
+    expect(variablesContent).toContain('--styles-a-box-shadow: rgba(0, 0, 0, .2);');
+  });
+
+  it('should rewrite style regions in LESS, Sass, Vue and CSS-in-JS files', async () => {
+    const files: Record<string, [string, string]> = {
+      'a.less': ['@c: #000;\n.a { color: #fff; background-color: @c; // comment\n}', '@c: #000;\n.a { color: var(--styles-a-c); background-color: @c; // comment\n}'],
+      'b.sass': ['.b\n  color: #fff\n', '.b\n  color: var(--styles-b-c)\n'],
+      'C.vue': ['<template>\n  <div class="c" />\n</template>\n<style lang="scss">\n.c { color: #fff; }\n</style>\n', '<template>\n  <div class="c" />\n</template>\n<style lang="scss">\n.c { color: var(--styles-c-c); }\n</style>\n'],
+      'D.tsx': ['export const D = styled.div`\n  color: #fff;\n  background-color: ${p => p.bg};\n`;\n', 'export const D = styled.div`\n  color: var(--styles-c);\n  background-color: ${p => p.bg};\n`;\n']
+    };
+    for (const [name, [content]] of Object.entries(files)) {
+      fs.writeFileSync(path.join(stylesDir, name), content);
+    }
+
+    const cssToVariable = new CssToVariable({
+      directory: testDir,
+      properties: ['color', 'background-color'],
+      pattern: '**/*.{less,sass,vue,tsx}'
+    });
+    await cssToVariable.extract();
+
+    for (const [name, [, expected]] of Object.entries(files)) {
+      expect(fs.readFileSync(path.join(stylesDir, name), 'utf-8')).toBe(expected);
+    }
+    const report = cssToVariable.getVariableReport();
+    const vueUsage = report.flatMap(item => item.usages).find(usage => usage.filePath.endsWith('C.vue'));
+    expect(vueUsage?.line).toBe(5);
+  });
+
+  it('should skip LESS functions, escapes and Sass mixin lines', async () => {
+    const lessContent = '.a { color: darken(#fff, 10%); background-color: ~"#eee"; }\n.b { color: #123; }\n';
+    const sassContent = '.c\n  +mix(#000)\n  &:hover\n    color: #fff\n.d\n  color: #ddd\n';
+    fs.writeFileSync(path.join(stylesDir, 'a.less'), lessContent);
+    fs.writeFileSync(path.join(stylesDir, 'c.sass'), sassContent);
+
+    await new CssToVariable({ directory: testDir, properties: ['color', 'background-color'], pattern: '**/*.{less,sass}' }).extract();
+
+    expect(fs.readFileSync(path.join(stylesDir, 'a.less'), 'utf-8')).toBe(lessContent.replace('#123', 'var(--styles-b-c)'));
+    expect(fs.readFileSync(path.join(stylesDir, 'c.sass'), 'utf-8')).toBe(sassContent.replace('#ddd', 'var(--styles-d-c)'));
+    const variablesContent = fs.readFileSync(path.join(testDir, outputFile), 'utf-8');
+    expect(variablesContent).not.toMatch(/darken|~|mix/);
+  });
+
+  it('should apply per-directory overrides', async () => {
+    fs.mkdirSync(path.join(stylesDir, 'legacy'));
+    fs.writeFileSync(path.join(stylesDir, 'a.css'), '.a { color: #fff; margin: 4px; }');
+    fs.writeFileSync(path.join(stylesDir, 'legacy', 'b.css'), '.b { color: #000; margin: 8px; }');
+
+    const cssToVariable = new CssToVariable({
+      directory: testDir,
+      properties: ['color', 'margin'],
+      overrides: { 'styles/legacy': { properties: ['color'], prefix: 'old' } }
+    });
+    await cssToVariable.extract();
+
+    expect(fs.readFileSync(path.join(stylesDir, 'a.css'), 'utf-8')).toBe('.a { color: var(--styles-a-c); margin: var(--styles-a-margin); }');
+    expect(fs.readFileSync(path.join(stylesDir, 'legacy', 'b.css'), 'utf-8')).toBe('.b { color: var(--old-legacy-b-c); margin: 8px; }');
+  });
+
+  it('should report hardcoded values without writing files in check mode', async () => {
+    const testCssPath = path.join(stylesDir, 'test.css');
+    const testCssContent = '.a { color: #fff; background: var(--bg); }\n.b {\n  box-shadow: 0 0 1px #000, 0 0 2px red;\n}';
+    fs.writeFileSync(testCssPath, testCssContent);
+
+    const properties = ['color', 'background', 'box-shadow'];
+    const violations = await new CssToVariable({ directory: testDir, properties }).check();
+    expect(violations).toEqual([
+      { filePath: 'styles/test.css', line: 1, column: 13, property: 'color', value: '#fff' },
+      { filePath: 'styles/test.css', line: 3, column: 15, property: 'box-shadow', value: '0 0 1px #000, 0 0 2px red' }
+    ]);
+
+    const tokenViolations = await new CssToVariable({ directory: testDir, properties, valueMode: 'token' }).check();
+    expect(tokenViolations.map(item => [item.value, item.column])).toEqual([['#fff', 13], ['#000', 23], ['red', 37]]);
+
+    expect(fs.readFileSync(testCssPath, 'utf-8')).toBe(testCssContent);
+    expect(fs.readdirSync(testDir)).toEqual(['styles']);
+  });
+
+  it('should report the same custom property definitions in check that extract rewrites', async () => {
+    const themePath = path.join(stylesDir, 'theme.css');
+    fs.writeFileSync(themePath, '.theme {\n  --brand: #0d3376;\n  --gap: 4px;\n  color: #fff;\n}\n');
+
+    const options = { directory: testDir, properties: ['color'], contexts: { customProperties: 'alias' as const } };
+    const violations = await new CssToVariable(options).check();
+    expect(violations.map(item => [item.property, item.value])).toEqual([['--brand', '#0d3376'], ['color', '#fff']]);
+    expect(await new CssToVariable({ directory: testDir, properties: ['color'] }).check()).toHaveLength(1);
+    // 未开启 alias 或提取的属性不含颜色属性时，自定义属性定义不算违规
+    expect(await new CssToVariable({ directory: testDir, properties: ['padding'] }).check()).toEqual([]);
+    expect(await new CssToVariable({ ...options, properties: ['padding'] }).check()).toEqual([]);
+
+    const result = await new CssToVariable(options).extract();
+    expect(result.variables).toHaveLength(violations.length);
+    expect(await new CssToVariable(options).check()).toEqual([]);
+  });
+
+  it('should reuse existing tokens and report near matches', async () => {
+    fs.writeFileSync(path.join(testDir, 'tokens.json'), JSON.stringify({
+      color: { primary: { $value: '#0D3376' }, text: { $value: '{color.primary}' } }
+    }));
+    fs.writeFileSync(path.join(stylesDir, 'test.css'), '.a { color: rgb(13, 51, 118); }\n.b { color: #0e3377; }\n.c { color: #f00; }');
+
+    const cssToVariable = new CssToVariable({
+      directory: testDir,
+      properties: ['color'],
+      tokenFiles: ['tokens.json'],
+      tokenTolerance: 2
+    });
+    await cssToVariable.extract();
+
+    expect(fs.readFileSync(path.join(stylesDir, 'test.css'), 'utf-8'))
+      .toBe('.a { color: var(--color-primary); }\n.b { color: var(--styles-b-c); }\n.c { color: var(--styles-c-c); }');
+    const variablesContent = fs.readFileSync(path.join(testDir, outputFile), 'utf-8');
+    expect(variablesContent).not.toContain('--color-primary');
+    expect(variablesContent).toContain('--styles-b-c: #0e3377;');
+    expect(cssToVariable.getTokenSuggestions()).toEqual([
+      expect.objectContaining({ filePath: 'styles/test.css', line: 2, value: '#0e3377', token: '--color-primary', tokenValue: '#0D3376' })
+    ]);
+  });
+
+  it('should write every selected export format in one run', async () => {
+    fs.writeFileSync(path.join(stylesDir, 'test.css'), '.a { color: #fff; }');
+
+    const cssToVariable = new CssToVariable({
+      directory: testDir,
+      properties: ['color'],
+      formats: ['dtcg', 'ts']
+    });
+    await cssToVariable.extract();
+
+    expect(fs.existsSync(path.join(testDir, outputFile))).toBe(false);
+    expect(JSON.parse(fs.readFileSync(path.join(testDir, 'variables.tokens.json'), 'utf-8'))['styles-a-c'])
+      .toEqual({ $type: 'color', $value: '#fff' });
+    expect(fs.readFileSync(path.join(testDir, 'variables.ts'), 'utf-8')).toContain("'--styles-a-c': \"#fff\"");
+
+    await expect(new CssToVariable({ directory: testDir, properties: ['color'], formats: ['yaml'] }).extract())
+      .rejects.toThrow('未知的输出格式: yaml');
+  });
+
+  it('should not overwrite or delete a user file that shares an export file name', async () => {
+    const userFile = path.join(testDir, 'variables.ts');
+    fs.writeFileSync(userFile, 'export const mine = 1;\n');
+    fs.writeFileSync(path.join(stylesDir, 'test.css'), '.a { color: #fff; }');
+
+    const options = { directory: testDir, properties: ['color'], formats: ['css', 'ts'] };
+    await new CssToVariable(options).extract();
+    expect(fs.readFileSync(userFile, 'utf-8')).toBe('export const mine = 1;\n');
+    expect(fs.readFileSync(path.join(testDir, 'variables-1.ts'), 'utf-8')).toContain("'--styles-a-c'");
+
+    // 合并模式下再次执行时覆盖自己生成的文件，而不是再生成新的文件
+    fs.writeFileSync(path.join(stylesDir, 'test.css'), '.a { color: var(--styles-a-c); background-color: #000; }');
+    await new CssToVariable({ ...options, properties: ['background-color'], merge: true }).extract();
+    expect(fs.readFileSync(path.join(testDir, 'variables-1.ts'), 'utf-8')).toContain("'--styles-a-bc'");
+    expect(fs.existsSync(path.join(testDir, 'variables-2.ts'))).toBe(false);
+
+    await new CssToVariable({ directory: testDir, properties: [] }).restore();
+    expect(fs.readFileSync(userFile, 'utf-8')).toBe('export const mine = 1;\n');
+    expect(fs.existsSync(path.join(testDir, 'variables-1.ts'))).toBe(false);
+  });
+
+  it('should name color variables semantically and resolve collisions by value', async () => {
+    fs.writeFileSync(path.join(stylesDir, 'test.css'), [
+      '.a { color: #1e3a8a; background-color: #1E3A8A; }',
+      '.b { color: #1e3a8b; margin: 4px; }',
+      '.c { color: rgba(255, 255, 255, .5); border-color: #0d3376; }'
+    ].join('\n'));
+
+    await new CssToVariable({
+      directory: testDir,
+      properties: ['color', 'background-color', 'border-color', 'margin'],
+      prefix: 'ui',
+      naming: 'semantic',
+      palette: { brand: '#0D3376' }
+    }).extract();
+
+    expect(fs.readFileSync(path.join(stylesDir, 'test.css'), 'utf-8')).toBe([
+      '.a { color: var(--ui-color-blue-700); background-color: var(--ui-color-blue-700); }',
+      '.b { color: var(--ui-color-blue-700-1e3a8b); margin: var(--ui-styles-b-margin); }',
+      '.c { color: var(--ui-color-white-a50); border-color: var(--ui-color-brand); }'
+    ].join('\n'));
+  });
+
+  it('should keep existing names and only append new variables in merge mode', async () => {
+    fs.writeFileSync(path.join(stylesDir, 'a.css'), '.a { color: #fff; }');
+    const options = { directory: testDir, properties: ['color'], merge: true };
+    await new CssToVariable(options).extract();
+
+    const variablesPath = path.join(testDir, outputFile);
+    const snapshot = (): string[] => [
+      ...fs.readdirSync(testDir),
+      fs.readFileSync(variablesPath, 'utf-8'),
+      fs.readFileSync(path.join(stylesDir, 'a.css'), 'utf-8'),
+      fs.readFileSync(path.join(testDir, 'css-to-variable.manifest.json'), 'utf-8')
+    ];
+
+    // 重复执行不产生任何改动
+    const before = snapshot();
+    await new CssToVariable(options).extract();
+    expect(snapshot()).toEqual(before);
+
+    // 手动修改的取值保留，已知的值沿用原变量名，只追加新变量
+    fs.writeFileSync(variablesPath, fs.readFileSync(variablesPath, 'utf-8').replace('#fff', '#fafafa'));
+    fs.writeFileSync(path.join(stylesDir, 'b.css'), '.b { color: #fafafa; }\n.c { color: #000; }');
+    await new CssToVariable(options).extract();
+
+    expect(fs.readFileSync(path.join(stylesDir, 'b.css'), 'utf-8')).toBe('.b { color: var(--styles-a-c); }\n.c { color: var(--styles-c-c); }');
+    expect(fs.readFileSync(variablesPath, 'utf-8')).toBe(':root {\n\n  /* styles */\n  --styles-a-c: #fafafa;\n  --styles-c-c: #000;\n}\n');
+    expect(fs.readdirSync(testDir).sort()).toEqual(['css-to-variable.manifest.json', 'styles', outputFile]);
+
+
+    const manifest = JSON.parse(fs.readFileSync(path.join(testDir, 'css-to-variable.manifest.json'), 'utf-8'));
+    expect(manifest.replacements.map((item: { variableName: string }) => item.variableName))
+      .toEqual(['--styles-a-c', '--styles-a-c', '--styles-c-c']);
+
+    // 新变量追加到已有的同名分组中，而不是重复添加分组注释
+    fs.mkdirSync(path.join(stylesDir, 'sub'));
+    fs.writeFileSync(path.join(stylesDir, 'sub', 'd.css'), '.d { color: #111; }');
+    await new CssToVariable(options).extract();
+    fs.writeFileSync(path.join(stylesDir, 'e.css'), '.e { color: #222; }');
+    await new CssToVariable(options).extract();
+    expect(fs.readFileSync(variablesPath, 'utf-8')).toBe(':root {\n\n  /* styles */\n  --styles-a-c: #fafafa;\n  --styles-c-c: #000;\n  --styles-e-c: #222;\n\n  /* styles/sub */\n  --sub-d-c: #111;\n}\n');
+
+    // 配置主题时，新变量的主题值写入已有的主题块，重复执行不会堆积主题块
+    const themed = { ...options, themes: { dark: { '#333': '#ccc', '#444': '#ddd' } } };
+    fs.writeFileSync(path.join(stylesDir, 'f.css'), '.f { color: #333; }');
+    await new CssToVariable(themed).extract();
+    const themedBefore = snapshot();
+    await new CssToVariable(themed).extract();
+    expect(snapshot()).toEqual(themedBefore);
+    fs.writeFileSync(path.join(stylesDir, 'g.css'), '.g { color: #444; }');
+    await new CssToVariable(themed).extract();
+    expect(fs.readFileSync(variablesPath, 'utf-8')).toBe([
+      ':root {\n\n  /* styles */\n  --styles-a-c: #fafafa;\n  --styles-c-c: #000;\n  --styles-e-c: #222;\n  --styles-f-c: #333;\n  --styles-g-c: #444;\n\n  /* styles/sub */\n  --sub-d-c: #111;\n}\n',
+      '[data-theme="dark"] {\n  --styles-f-c: #ccc;\n  --styles-g-c: #ddd;\n}\n',
+      '@media (prefers-color-scheme: dark) {\n  :root:not([data-theme]) {\n    --styles-f-c: #ccc;\n    --styles-g-c: #ddd;\n  }\n}\n'
+    ].join('\n'));
+  });
+
+  it('should share asset variables by content and inline only small images', async () => {
+    fs.mkdirSync(path.join(stylesDir, 'images'));
+    fs.writeFileSync(path.join(stylesDir, 'images/logo.png'), 'small');
+    fs.writeFileSync(path.join(stylesDir, 'images/logo-copy.png'), 'small');
+    fs.writeFileSync(path.join(stylesDir, 'images/banner.png'), Buffer.alloc(5000));
+    const testScssPath = path.join(stylesDir, 'a.scss');
+    const testScssContent = [
+      '.a { background: url(./images/logo.png) no-repeat; }',
+      '.b { background-image: url("images/logo-copy.png"), url(./images/banner.png); }',
+      '.c { background: url(https://cdn.example.com/bg.png?v=1); }',
+      '.d { @include bg(\'./images/banner.png\'); }',
+      '.e { background: #fff url(./images/logo.png); }'
+    ].join('\n');
+    fs.writeFileSync(testScssPath, testScssContent);
+
+    await new CssToVariable({
+      directory: testDir,
+      properties: ['background', 'background-image'],
+      assetsOutput: true,
+      remoteAssets: true,
+      assetMixins: ['bg'],
+      valueMode: 'token'
+    }).extract();
+
+    expect(fs.readFileSync(testScssPath, 'utf-8')).toBe([
+      '.a { background: var(--img-logo) no-repeat; }',
+      '.b { background-image: var(--img-logo), var(--img-banner); }',
+      '.c { background: var(--img-bg); }',
+      '.d { @include bg(var(--img-banner)); }',
+      '.e { background: var(--styles-e-bg) var(--img-logo); }'
+    ].join('\n'));
+    expect(fs.readFileSync(path.join(testDir, 'assets.css'), 'utf-8')).toBe([
+      ':root {',
+      '',
+      '  /* 资源变量 */',
+      `  --img-logo: url(data:image/png;base64,${Buffer.from('small').toString('base64')});`,
+      '  --img-banner: url(\'./styles/images/banner.png\');',
+      '  --img-bg: url(\'https://cdn.example.com/bg.png?v=1\');',
+      '}',
+      ''
+    ].join('\n'));
+
+    await new CssToVariable({ directory: testDir, properties: [] }).restore();
+    expect(fs.readFileSync(testScssPath, 'utf-8')).toBe(testScssContent);
+  });
+
+  it('should skip ignored files, excluded selectors, denied values and ignore comments', async () => {
+    fs.mkdirSync(path.join(stylesDir, 'vendor'));
+    const vendorPath = path.join(stylesDir, 'vendor/lib.css');
+    fs.writeFileSync(vendorPath, '.lib { color: #111; }');
+    const testCssPath = path.join(stylesDir, 'a.css');
+    fs.writeFileSync(testCssPath, [
+      '.el-button { color: #222; }',
+      '.a { color: inherit; }',
+      '.b { color: #333; /* css-to-variable-ignore */ }',
+      '.c { color: #444; }'
+    ].join('\n'));
+
+    const cssToVariable = new CssToVariable({
+      directory: testDir,
+      properties: ['color'],
+      ignore: ['**/vendor/**'],
+      excludeSelectors: ['^\\.el-'],
+      denyValues: [/^inherit$/]
+    });
+    await cssToVariable.extract();
+
+    expect(fs.readFileSync(vendorPath, 'utf-8')).toBe('.lib { color: #111; }');
+    expect(fs.readFileSync(testCssPath, 'utf-8')).toBe([
+      '.el-button { color: #222; }',
+      '.a { color: inherit; }',
+      '.b { color: #333; /* css-to-variable-ignore */ }',
+      '.c { color: var(--styles-c-c); }'
+    ].join('\n'));
+    expect(await new CssToVariable({ directory: testDir, properties: ['color'], ignore: ['**/vendor/**'] }).check())
+      .toEqual([expect.objectContaining({ value: '#222' }), expect.objectContaining({ value: 'inherit' })]);
+  });
+
+  it('should skip keyframes and :root, add context suffixes and alias custom properties', async () => {
+    const testCssPath = path.join(stylesDir, 'a.scss');
+    fs.writeFileSync(testCssPath, [
+      ':root { color: #111; }',
+      '@keyframes pulse { to { color: #222; } }',
+      '.btn { color: #333; &:hover { color: #444; } }',
+      '@media (min-width: 768px) { #nav { color: #555; } }',
+      '.card { --card-bg: #666; }'
+    ].join('\n'));
+
+    const options = { directory: testDir, properties: ['color'], themes: { dark: { '#333': '#000' } }, contexts: { customProperties: 'alias' as const } };
+    await new CssToVariable(options).extract();
+
+    expect(fs.readFileSync(testCssPath, 'utf-8')).toBe([
+      ':root { color: #111; }',
+      '@keyframes pulse { to { color: #222; } }',
+      '.btn { color: var(--styles-btn-c); &:hover { color: var(--styles-btn-c-hover); } }',
+      '@media (min-width: 768px) { #nav { color: var(--styles-nav-c-md); } }',
+      '.card { --card-bg: var(--styles-card-card-bg); }'
+    ].join('\n'));
+
+    // 再次执行时生成的变量文件（含主题块中的自定义属性）不会被当作源码处理
+    const variablesContent = fs.readFileSync(path.join(testDir, outputFile), 'utf-8');
+    expect(variablesContent).toContain('--styles-card-card-bg: #666;');
+    expect(variablesContent).toContain('[data-theme="dark"] {\n  --styles-btn-c: #000;');
+    await new CssToVariable(options).extract();
+    expect(fs.readFileSync(path.join(testDir, outputFile), 'utf-8')).toBe(variablesContent);
+  });
+
+  it('should leave custom property definitions untouched unless aliasing is enabled for color properties', async () => {
+    const testCssPath = path.join(stylesDir, 'a.css');
+    const testCssContent = '.card { --x: #fff; color: #fff; padding: 4px; }';
+    fs.writeFileSync(testCssPath, testCssContent);
+
+    await new CssToVariable({ directory: testDir, properties: ['padding'], contexts: { customProperties: 'alias' } }).extract();
+    expect(fs.readFileSync(testCssPath, 'utf-8')).toBe('.card { --x: #fff; color: #fff; padding: var(--styles-card-padding); }');
+
+    fs.writeFileSync(testCssPath, testCssContent);
+    await new CssToVariable({ directory: testDir, properties: ['color'] }).extract();
+    expect(fs.readFileSync(testCssPath, 'utf-8')).toBe('.card { --x: #fff; color: var(--styles-card-c); padding: 4px; }');
+  });
+
+  it('should stay silent and emit events in file order with concurrent parsing', async () => {
+    ['c', 'a', 'b'].forEach(name => fs.writeFileSync(path.join(stylesDir, `${name}.css`), `.${name} { color: #${name}${name}${name}; }`));
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const events: string[] = [];
+
+    const cssToVariable = new CssToVariable({ directory: testDir, properties: ['color'], concurrency: 2 });
+    cssToVariable
+      .on('fileStart', ({ filePath, index, total }) => events.push(`start ${path.basename(filePath)} ${index}/${total}`))
+      .on('variable', ({ variableName, value }) => events.push(`variable ${variableName} ${value}`))
+      .on('fileDone', ({ filePath, variables }) => events.push(`done ${path.basename(filePath)} ${variables}`));
+    await cssToVariable.extract();
+
+    expect(log).not.toHaveBeenCalled();
+    log.mockRestore();
+    expect(events).toEqual([
+      'start a.css 0/3', 'variable --styles-a-c #aaa', 'done a.css 1',
+      'start b.css 1/3', 'variable --styles-b-c #bbb', 'done b.css 1',
+      'start c.css 2/3', 'variable --styles-c-c #ccc', 'done c.css 1'
+    ]);
+  });
+
+  it('should skip malformed files and report them in the result, or write nothing with failFast', async () => {
+    const validPath = path.join(stylesDir, 'a.css');
+    const brokenPath = path.join(stylesDir, 'b.css');
+    fs.writeFileSync(validPath, '.a { color: #aaa; }');
+    fs.writeFileSync(brokenPath, '.b { color: #bbb; }\n.c { color: #ccc;');
+
+    await expect(new CssToVariable({ directory: testDir, properties: ['color'], failFast: true }).extract()).rejects.toThrow('Unclosed block');
+    expect(fs.readFileSync(validPath, 'utf-8')).toBe('.a { color: #aaa; }');
+    expect(fs.readdirSync(testDir)).toEqual(['styles']);
+
+    const errors: string[] = [];
+    const cssToVariable = new CssToVariable({ directory: testDir, properties: ['color'] });
+    cssToVariable.on('error', ({ filePath, line }) => errors.push(`${filePath}:${line}`));
+    const result = await cssToVariable.extract();
+
+    expect(result).toEqual({
+      processedFiles: ['styles/a.css'],
+      skippedFiles: ['styles/b.css'],
+      errors: [{ filePath: 'styles/b.css', message: 'Unclosed block', line: 2, column: 1 }],
+      variables: [{ variableName: '--styles-a-c', value: '#aaa', property: 'color', filePath: 'styles/a.css', line: 1 }]
+    });
+    expect(errors).toEqual(['styles/b.css:2']);
+    expect(fs.readFileSync(validPath, 'utf-8')).toBe('.a { color: var(--styles-a-c); }');
+    expect(fs.readFileSync(brokenPath, 'utf-8')).toBe('.b { color: #bbb; }\n.c { color: #ccc;');
+    expect(fs.readFileSync(path.join(testDir, outputFile), 'utf-8')).not.toContain('#bbb');
+    expect(fs.readdirSync(stylesDir).some(file => file.endsWith('.tmp'))).toBe(false);
+  });
+
+  it('should import the generated variables into an entry stylesheet through an alias, once', async () => {
+    const entryPath = path.join(testDir, 'main.scss');
+    const buttonPath = path.join(stylesDir, 'button.css');
+    fs.writeFileSync(entryPath, '@use "sass:math";\nbody { margin: 0; }\n');
+    fs.writeFileSync(buttonPath, '.button { color: #123456; }');
+
+    const options = { directory: testDir, properties: ['color'], splitByFolder: true, injectImport: 'main.scss', importPath: '~@/variables/index.css' };
+    await new CssToVariable(options).extract();
+
+    expect(fs.readFileSync(entryPath, 'utf-8')).toBe('@use "sass:math";\n@use "~@/variables/index";\nbody { margin: 0; }\n');
+    expect(fs.readFileSync(buttonPath, 'utf-8')).toBe('.button { color: var(--styles-button-c); }');
+    // 只有一个拆分文件时同样生成 index.css 作为引入入口
+    expect(fs.readFileSync(path.join(testDir, 'variables', 'index.css'), 'utf-8')).toBe('@import url("variables-styles.css");');
+
+    // 已引入时不重复添加
+    fs.writeFileSync(buttonPath, '.button { color: #123456; background-color: #654321; }');
+    await new CssToVariable({ ...options, properties: ['background-color'], merge: true }).extract();
+    expect(fs.readFileSync(entryPath, 'utf-8')).toBe('@use "sass:math";\n@use "~@/variables/index";\nbody { margin: 0; }\n');
+
+    await new CssToVariable({ directory: testDir, properties: [] }).restore();
+    expect(fs.readFileSync(entryPath, 'utf-8')).toBe('@use "sass:math";\nbody { margin: 0; }\n');
+  });
+
+  it('should import the assets file only into files that reference asset variables', async () => {
+    fs.mkdirSync(path.join(stylesDir, 'images'));
+    fs.writeFileSync(path.join(stylesDir, 'images/logo.png'), 'small');
+    const logoPath = path.join(stylesDir, 'logo.css');
+    const textPath = path.join(stylesDir, 'text.css');
+    const logoContent = '.logo {\n  color: #111;\n  background-image: url(./images/logo.png);\n}\n';
+    fs.writeFileSync(logoPath, logoContent);
+    fs.writeFileSync(textPath, '.text { color: #222; }\n');
+
+    await new CssToVariable({ directory: testDir, properties: ['color', 'background-image'], assetsOutput: true, injectImport: true }).extract();
+
+    expect(fs.readFileSync(logoPath, 'utf-8')).toBe('@import url("../variables.css");\n@import url("../assets.css");\n.logo {\n  color: var(--styles-logo-c);\n  background-image: var(--img-logo);\n}\n');
+    expect(fs.readFileSync(textPath, 'utf-8')).toBe('@import url("../variables.css");\n.text { color: var(--styles-text-c); }\n');
+
+    await new CssToVariable({ directory: testDir, properties: [] }).restore();
+    expect(fs.readFileSync(logoPath, 'utf-8')).toBe(logoContent);
+  });
+
+  it('should declare file-local variables on the component root and promote shared values to :root', async () => {
+    const demoPath = path.join(stylesDir, 'demo.module.css');
+    const cardPath = path.join(stylesDir, 'card.module.css');
+    const demoContent = '.demo {\n  color: #111;\n  background-color: #222;\n}\n';
+    fs.writeFileSync(demoPath, demoContent);
+    fs.writeFileSync(cardPath, '.card {\n  color: #111;\n}\n');
+
+    const options = { directory: testDir, properties: ['color', 'background-color'], dedupe: true, scope: 'file' as const, scopeSelector: 'root' as const };
+    await new CssToVariable(options).extract();
+
+    expect(fs.readFileSync(demoPath, 'utf-8')).toBe('.demo {\n  --styles-demo-bc: #222;\n  color: var(--styles-card-c);\n  background-color: var(--styles-demo-bc);\n}\n');
+    const variablesContent = fs.readFileSync(path.join(testDir, outputFile), 'utf-8');
+    expect(variablesContent).toContain('--styles-card-c: #111;');
+    expect(variablesContent).not.toContain('--styles-demo-bc');
+
+    // 再次提取时作用域变量的声明不会被当作自定义属性改写
+    await new CssToVariable({ ...options, merge: true }).extract();
+    expect(fs.readFileSync(demoPath, 'utf-8')).toContain('--styles-demo-bc: #222;');
+
+    await new CssToVariable({ directory: testDir, properties: [] }).restore();
+    expect(fs.readFileSync(demoPath, 'utf-8')).toBe(demoContent);
+  });
+
+  it('should extract category tokens in rem, share them across properties and report off-scale values', async () => {
+    const cardPath = path.join(stylesDir, 'card.css');
+    const cardContent = '.card {\n  margin: 16px;\n  padding: 1rem;\n  border-radius: 6px;\n  z-index: 10;\n}\n';
+    fs.writeFileSync(cardPath, cardContent);
+
+    const cssToVariable = new CssToVariable({ directory: testDir, properties: [], categories: ['spacing', 'radius', 'z-index'], unit: 'rem', scale: 4 });
+    await cssToVariable.extract();
+
+    expect(fs.readFileSync(cardPath, 'utf-8')).toBe('.card {\n  margin: var(--spacing-4);\n  padding: var(--spacing-4);\n  border-radius: var(--radius-1_5);\n  z-index: var(--z-10);\n}\n');
+    expect(fs.readFileSync(path.join(testDir, outputFile), 'utf-8')).toBe(':root {\n\n  /* spacing */\n  --spacing-4: 1rem;\n\n  /* radius */\n  --radius-1_5: 0.375rem;\n\n  /* z-index */\n  --z-10: 10;\n}\n');
+    expect(cssToVariable.getScaleMismatches()).toEqual([
+      { filePath: 'styles/card.css', line: 4, property: 'border-radius', category: 'radius', value: '6px', snappedValue: '0.5rem' }
+    ]);
+
+    await new CssToVariable({ directory: testDir, properties: [] }).restore();
+    expect(fs.readFileSync(cardPath, 'utf-8')).toBe(cardContent);
+  });
+
+  it('should leave keywords and calc() values of category properties untouched', async () => {
+    const boxPath = path.join(stylesDir, 'box.css');
+    const boxContent = '.box {\n  padding: inherit;\n  margin: 0 auto;\n  gap: calc(100% - 10px);\n  z-index: auto;\n  box-shadow: none;\n  border-radius: 50%;\n}\n';
+    fs.writeFileSync(boxPath, boxContent);
+
+    await new CssToVariable({ directory: testDir, properties: [], categories: true, unit: 'rem' }).extract();
+
+    expect(fs.readFileSync(boxPath, 'utf-8')).toBe(boxContent.replace('50%', 'var(--radius-50pct)'));
+    expect(fs.readFileSync(path.join(testDir, outputFile), 'utf-8')).toBe(':root {\n\n  /* radius */\n  --radius-50pct: 50%;\n}\n');
+  });
+
+  it('should extract changed files incrementally in watch mode', async () => {
+    const changes: string[][] = [];
+    let notify: () => void = () => undefined;
+    const nextChange = (): Promise<void> => new Promise(resolve => { notify = resolve; });
+
+    const cssToVariable = new CssToVariable({ directory: testDir, properties: ['color'] });
+    const watcher = await cssToVariable.watch({
+      debounce: 50,
+      onChange: (files) => {
+        changes.push(files.map(file => path.relative(testDir, file)));
+        notify();
+      }
+    });
+
+    try {
+      let changed = nextChange();
+      fs.writeFileSync(path.join(stylesDir, 'a.css'), '.a { color: #fff; }');
+      await changed;
+
+      changed = nextChange();
+      fs.writeFileSync(path.join(stylesDir, 'b.css'), '.b { color: #fff; }\n.c { color: #000; }');
+      await changed;
+      // 等待可能由自身写入触发的变更
+      await new Promise(resolve => setTimeout(resolve, 200));
+    } finally {
+      await watcher.dispose();
+    }
+
+    expect(changes).toEqual([[path.join('styles', 'a.css')], [path.join('styles', 'b.css')]]);
+    expect(fs.readFileSync(path.join(stylesDir, 'b.css'), 'utf-8')).toBe('.b { color: var(--styles-a-c); }\n.c { color: var(--styles-c-c); }');
+    expect(fs.readFileSync(path.join(testDir, outputFile), 'utf-8'))
+      .toBe(':root {\n\n  /* styles */\n  --styles-a-c: #fff;\n  --styles-c-c: #000;\n}\n');
+    expect(cssToVariable.getVariableReport().reduce((count, report) => count + report.usageCount, 0)).toBe(3);
+  });
+
+  it('should restore the merge option and finish pending writes when the watcher is disposed', async () => {
+    let notify: () => void = () => undefined;
+    const changed = new Promise<void>(resolve => { notify = resolve; });
+
+    const cssToVariable = new CssToVariable({ directory: testDir, properties: ['color'] });
+    const watcher = await cssToVariable.watch({ debounce: 50, onChange: () => notify() });
+    try {
+      fs.writeFileSync(path.join(stylesDir, 'a.css'), '.a { color: #fff; }');
+      await changed;
+    } finally {
+      await watcher.dispose();
+    }
+    const variablesContent = fs.readFileSync(path.join(testDir, outputFile), 'utf-8');
+
+    // 停止监听后 extract 不再处于合并模式，已有变量文件不会被改写
+    fs.writeFileSync(path.join(stylesDir, 'b.css'), '.b { color: #000; }');
+    await cssToVariable.extract();
+    expect(fs.readFileSync(path.join(testDir, outputFile), 'utf-8')).toBe(variablesContent);
+    expect(fs.readFileSync(path.join(testDir, 'variables-1.css'), 'utf-8')).toContain('--styles-b-c: #000;');
+  });
+
+  it('should drop the previous usages of a changed file in watch mode', async () => {
+    let notify: () => void = () => undefined;
+    const nextChange = (): Promise<void> => new Promise(resolve => { notify = resolve; });
+
+    const cssToVariable = new CssToVariable({ directory: testDir, properties: ['color'] });
+    const watcher = await cssToVariable.watch({ debounce: 50, onChange: () => notify() });
+
+    try {
+      let changed = nextChange();
+      fs.writeFileSync(path.join(stylesDir, 'a.css'), '.a { color: #fff; }\n.b { color: #000; }');
+      await changed;
+      expect(cssToVariable.getVariableReport().map(report => report.usageCount)).toEqual([1, 1]);
+
+      changed = nextChange();
+      fs.writeFileSync(path.join(stylesDir, 'a.css'), '.a { color: #fff; }');
+      await changed;
+      await new Promise(resolve => setTimeout(resolve, 200));
+    } finally {
+      await watcher.dispose();
+    }
+
+    const report = cssToVariable.getVariableReport();
+    expect(report.map(({ variableName, usageCount }) => ({ variableName, usageCount }))).toEqual([{ variableName: '--styles-a-c', usageCount: 1 }]);
+    expect(report[0].usages).toEqual([expect.objectContaining({ filePath: path.join(stylesDir, 'a.css'), line: 1 })]);
+  });
+});
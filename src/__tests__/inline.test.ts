@@ -0,0 +1,39 @@
+import postcss from 'postcss';
+import { collectCustomProperties, CustomPropertyMap, resolveVarReferences } from '../inline';
+
+describe('inline', () => {
+  const definitions: CustomPropertyMap = new Map([
+    ['--primary', '#0d3376'],
+    ['--text', 'var(--primary)'],
+    ['--loop-a', 'var(--loop-b)'],
+    ['--loop-b', 'var(--loop-a)']
+  ]);
+
+  it('should resolve var() references, nested references and fallbacks', () => {
+    expect(resolveVarReferences('var(--primary)', definitions).value).toBe('#0d3376');
+    expect(resolveVarReferences('var(--text)', definitions).value).toBe('#0d3376');
+    expect(resolveVarReferences('1px solid var(--missing, #fff)', definitions).value).toBe('1px solid #fff');
+    expect(resolveVarReferences('var(--missing, var(--text))', definitions).value).toBe('#0d3376');
+    expect(resolveVarReferences('linear-gradient(var(--primary), var(--missing, rgba(0, 0, 0, .5)))', definitions).value)
+      .toBe('linear-gradient(#0d3376, rgba(0, 0, 0, .5))');
+  });
+
+  it('should report undefined and cyclic references', () => {
+    const missing = resolveVarReferences('var(--missing) var(--primary)', definitions);
+    expect(missing.value).toBe('var(--missing) #0d3376');
+    expect(missing.unresolved).toEqual(['--missing']);
+
+    const cyclic = resolveVarReferences('var(--loop-a)', definitions);
+    expect(cyclic.changed).toBe(false);
+    expect(cyclic.unresolved).toEqual(['--loop-a']);
+  });
+
+  it('should prefer :root definitions when collecting custom properties', () => {
+    const root = postcss.parse('.a { --primary: red; } :root { --primary: blue; } .b { --primary: green; }');
+    const collected: CustomPropertyMap = new Map();
+    const conflicts: string[] = [];
+    collectCustomProperties(root, collected, (name, value) => conflicts.push(value));
+    expect(collected.get('--primary')).toBe('blue');
+    expect(conflicts).toEqual(['green']);
+  });
+});
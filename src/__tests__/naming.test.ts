@@ -0,0 +1,28 @@
+import { parseColor } from '../color';
+import { createPalette, semanticColorName } from '../naming';
+
+describe('naming', () => {
+  const name = (value: string, palette?: Record<string, string>): string =>
+    semanticColorName(parseColor(value)!, palette && createPalette(palette));
+
+  it('should name colors by hue family and lightness step', () => {
+    expect(name('#1d4ed8')).toBe('blue-500');
+    expect(name('#1e3a8a')).toBe('blue-700');
+    expect(name('#fee2e2')).toBe('red-100');
+    expect(name('#15803d')).toBe('green-700');
+    expect(name('#f5f5f5')).toBe('gray-50');
+    expect(name('#333')).toBe('gray-800');
+    expect(name('#fff')).toBe('white');
+  });
+
+  it('should add an alpha suffix for translucent colors', () => {
+    expect(name('rgba(0, 0, 0, .5)')).toBe('black-a50');
+    expect(name('#f3f4f61a')).toBe('gray-50-a10');
+  });
+
+  it('should prefer names from the palette dictionary', () => {
+    expect(name('#0D3376', { brand: '#0d3376' })).toBe('brand');
+    expect(name('rgba(13, 51, 118, .2)', { brand: '#0d3376' })).toBe('brand-a20');
+    expect(name('#0e3377', { brand: '#0d3376' })).toBe('blue-700');
+  });
+});
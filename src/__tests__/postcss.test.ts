@@ -0,0 +1,71 @@
+import postcss from 'postcss';
+import * as path from 'path';
+import { CssToVariable } from '../index';
+import cssToVariablePlugin from '../postcss';
+import { cssToVariableVite } from '../vite';
+import { CssToVariableWebpackPlugin } from '../webpack';
+
+describe('build integrations', () => {
+  const directory = path.join(__dirname, 'fixtures-postcss');
+  const from = path.join(directory, 'styles', 'a.css');
+
+  it('should transform the AST and collect variables without touching source files', async () => {
+    const instance = new CssToVariable({ directory, properties: ['color'] });
+    const processor = postcss([cssToVariablePlugin({ instance })]);
+
+    const result = await processor.process('.a { color: #fff; margin: 0; }', { from });
+    expect(result.css).toBe('.a { color: var(--styles-a-c); margin: 0; }');
+
+    // 同一文件重新处理时不会重复生成变量
+    await processor.process('.a { color: #000; }', { from });
+    expect(instance.getVariablesContent()).toBe(':root {\n\n  /* styles */\n  --styles-a-c: #000;\n}\n');
+  });
+
+  it('should replace the previous results of a file when it is transformed again', async () => {
+    const instance = new CssToVariable({ directory, properties: [], categories: ['spacing'], scale: 4 });
+    const processor = postcss([cssToVariablePlugin({ instance })]);
+
+    await processor.process('.a { margin: 5px; }', { from });
+    await processor.process('.a { margin: 5px; }', { from });
+    expect(instance.getScaleMismatches()).toHaveLength(1);
+    expect(instance.getVariableReport().map(report => report.usageCount)).toEqual([1]);
+  });
+
+  it('should emit the variables file from the Vite plugin', async () => {
+    const plugin = cssToVariableVite({ directory, properties: ['color'] });
+    expect(await plugin.transform('export default 1', '/src/main.ts')).toBeUndefined();
+    const transformed = await plugin.transform('.a { color: red; }', `${from}?direct`);
+    expect(transformed?.code).toBe('.a { color: var(--styles-a-c); }');
+
+    const emitted: Array<{ fileName: string; source: string }> = [];
+    plugin.generateBundle.call({ emitFile: (file) => { emitted.push(file); return file.fileName; } });
+    expect(emitted).toEqual([{ type: 'asset', fileName: 'variables.css', source: expect.stringContaining('--styles-a-c: red;') }]);
+  });
+
+  it('should emit the variables file as a webpack asset', async () => {
+    const plugin = new CssToVariableWebpackPlugin({ directory, properties: ['color'], outputFile: 'theme.css' });
+    await postcss([plugin.postcss()]).process('.a { color: blue; }', { from });
+
+    const assets = new Map<string, { content: string }>();
+    let processAssets: () => void = () => undefined;
+    plugin.apply({
+      webpack: {
+        Compilation: { PROCESS_ASSETS_STAGE_ADDITIONAL: -2000 },
+        sources: { RawSource: class { constructor(public content: string) {} } }
+      },
+      hooks: {
+        thisCompilation: {
+          tap: (_, callback) => callback({
+            hooks: { processAssets: { tap: (_options, tapped) => { processAssets = tapped; } } },
+            getAsset: name => assets.get(name),
+            emitAsset: (name, source) => assets.set(name, source as { content: string }),
+            updateAsset: (name, source) => assets.set(name, source as { content: string })
+          })
+        }
+      }
+    });
+    processAssets();
+
+    expect(assets.get('theme.css')?.content).toContain('--styles-a-c: blue;');
+  });
+});
@@ -0,0 +1,40 @@
+import { createUsageReport, formatReport } from '../report';
+import type { VariableReport } from '../index';
+
+describe('report', () => {
+  const usage = (filePath: string, line: number, value: string) => ({ filePath, line, property: 'color', value });
+  const variables: VariableReport[] = [
+    { variableName: '--a-c', value: '#0D3376', usageCount: 2, usages: [usage('a.css', 1, '#0D3376'), usage('b.css', 4, '#0D3376')] },
+    { variableName: '--b-c', value: '#0d3377', usageCount: 1, usages: [usage('b.css', 2, '#0d3377')] },
+    { variableName: '--c-c', value: '#ff0000', usageCount: 1, usages: [usage('b.css', 3, '#ff0000')] },
+    { variableName: '--d-bg', value: 'url(a.png)', usageCount: 1, usages: [usage('a.css', 5, 'url(a.png)')] },
+    { variableName: '--e-bg', value: 'url(a.png)', usageCount: 1, usages: [usage('c.css', 1, 'url(a.png)')] }
+  ];
+
+  it('should summarize usages, near duplicates, single-use variables and top files', () => {
+    const report = createUsageReport(variables, { topFiles: 2 });
+
+    expect(report.summary).toEqual({ variables: 5, colors: 3, usages: 6, files: 3 });
+    expect(report.variables[0]).toMatchObject({ variableName: '--a-c', color: '#0d3376', usageCount: 2 });
+    expect(report.nearDuplicates).toEqual([
+      { value: '#0D3376', variables: [{ variableName: '--a-c', value: '#0D3376', deltaE: 0 }, { variableName: '--b-c', value: '#0d3377', deltaE: 0.67 }] },
+      { value: 'url(a.png)', variables: [{ variableName: '--d-bg', value: 'url(a.png)', deltaE: 0 }, { variableName: '--e-bg', value: 'url(a.png)', deltaE: 0 }] }
+    ]);
+    expect(report.singleUse).toEqual(['--b-c', '--c-c', '--d-bg', '--e-bg']);
+    expect(report.topFiles).toEqual([{ filePath: 'b.css', count: 3 }, { filePath: 'a.css', count: 2 }]);
+  });
+
+  it('should render markdown and self-contained HTML with links and swatches', () => {
+    const report = createUsageReport(variables);
+
+    const markdown = formatReport(report, 'markdown', { linkBase: 'src/' });
+    expect(markdown).toContain('| `--a-c` | `#0D3376` | 2 | [a.css:1](src/a.css#L1)<br>[b.css:4](src/b.css#L4) |');
+    expect(markdown).toContain('- `--a-c` (#0D3376)、`--b-c` (#0d3377, ΔE 0.67)');
+
+    const html = formatReport(report, 'html');
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('<span class="swatch" style="background: #0d3376"></span>');
+    expect(html).toContain('<a href="b.css#L4">b.css:4</a>');
+    expect(JSON.parse(formatReport(report, 'json'))).toEqual(report);
+  });
+});
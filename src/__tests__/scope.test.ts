@@ -0,0 +1,53 @@
+import postcss from 'postcss';
+import postcssScss from 'postcss-scss';
+import { declareScopedVariables, findScopeRule, isInScope, removeScopedVariables } from '../scope';
+
+describe('scope', () => {
+  const findDecl = (root: postcss.Root, value: string): postcss.Declaration => {
+    let found!: postcss.Declaration;
+    root.walkDecls((decl) => {
+      if (decl.value === value) {
+        found = decl;
+      }
+    });
+    return found;
+  };
+
+  it('should find the component root rule and check whether declarations are inside it', () => {
+    const root = postcssScss.parse('@use "a";\n.demo { color: red; &__title { color: blue; } }\n.demo .icon { color: green; }\n.demo-x { color: gray; }\n@media print { .demo:hover { color: white; } }');
+    const scopeRule = findScopeRule(root)!;
+    expect(scopeRule.selector).toBe('.demo');
+    expect(isInScope(findDecl(root, 'red'), scopeRule)).toBe(true);
+    expect(isInScope(findDecl(root, 'blue'), scopeRule)).toBe(true);
+    expect(isInScope(findDecl(root, 'green'), scopeRule)).toBe(true);
+    expect(isInScope(findDecl(root, 'gray'), scopeRule)).toBe(false);
+    expect(isInScope(findDecl(root, 'white'), scopeRule)).toBe(true);
+  });
+
+  it('should declare variables in a :where() rule and remove it again', () => {
+    const css = '@use "a";\n\n.demo {\n  color: var(--a);\n}\n';
+    const root = postcssScss.parse(css);
+    expect(declareScopedVariables(root, findScopeRule(root)!, [['--a', '#fff']], 'where')).toEqual({ selector: ':where(.demo)', created: true });
+    expect(root.toString(postcssScss)).toBe('@use "a";\n\n:where(.demo) {\n  --a: #fff;\n}\n\n.demo {\n  color: var(--a);\n}\n');
+
+    // 已有的 :where() 规则中追加，已声明的变量跳过
+    expect(declareScopedVariables(root, findScopeRule(root)!, [['--a', '#fff'], ['--b', '#000']], 'where').created).toBe(false);
+    expect(root.toString(postcssScss)).toContain(':where(.demo) {\n  --b: #000;\n  --a: #fff;\n}');
+
+    expect(removeScopedVariables(root, [
+      { filePath: 'a.scss', selector: ':where(.demo)', variables: ['--a'], created: true },
+      { filePath: 'a.scss', selector: ':where(.demo)', variables: ['--b'], created: false }
+    ])).toBe(2);
+    expect(root.toString(postcssScss)).toBe(css);
+  });
+
+  it('should declare variables on the root rule itself', () => {
+    const css = '.demo {\n  color: var(--a);\n}\n';
+    const root = postcss.parse(css);
+    expect(declareScopedVariables(root, findScopeRule(root)!, [['--a', '#fff']], 'root')).toEqual({ selector: '.demo', created: false });
+    expect(root.toString()).toBe('.demo {\n  --a: #fff;\n  color: var(--a);\n}\n');
+
+    removeScopedVariables(root, [{ filePath: 'a.css', selector: '.demo', variables: ['--a'], created: false }]);
+    expect(root.toString()).toBe(css);
+  });
+});
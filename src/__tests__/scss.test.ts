@@ -0,0 +1,55 @@
+import scss from 'postcss-scss';
+import { collectScssVariables, replaceScssReferences, resolveScssVariables, ScssVariableMap } from '../scss';
+
+describe('scss', () => {
+  const collect = (content: string): ScssVariableMap => {
+    const definitions: ScssVariableMap = new Map();
+    collectScssVariables(scss.parse(content), 'test.scss', definitions);
+    resolveScssVariables(definitions);
+    return definitions;
+  };
+
+  it('should respect !default and !global flags', () => {
+    const definitions = collect(`
+      $primary: #123;
+      $primary: #456 !default;
+      $secondary: red !default;
+      .a { $local: blue; $theme: green !global; }
+    `);
+
+    expect(definitions.get('primary')?.value).toBe('#123');
+    expect(definitions.get('secondary')?.value).toBe('red');
+    expect(definitions.get('theme')?.value).toBe('green');
+    expect(definitions.has('local')).toBe(false);
+  });
+
+  it('should resolve chains and mark maps and function calls as not convertible', () => {
+    const definitions = collect(`
+      $base: #0D3376;
+      $primary: $base;
+      $text: $primary;
+      $border: 1px solid $text;
+      $map: (a: 1, b: 2);
+      $dark: darken($base, 10%);
+      $alpha: rgba($base, .5);
+      $uses-dark: $dark;
+    `);
+
+    expect(definitions.get('text')?.value).toBe('#0D3376');
+    expect(definitions.get('border')?.value).toBe('1px solid #0D3376');
+    expect(definitions.get('map')?.convertible).toBe(false);
+    expect(definitions.get('dark')?.reason).toBe('SCSS函数 darken()');
+    expect(definitions.get('alpha')?.convertible).toBe(false);
+    expect(definitions.get('uses-dark')?.convertible).toBe(false);
+  });
+
+  it('should only replace top-level references', () => {
+    const resolve = (name: string) => `var(--${name})`;
+    expect(replaceScssReferences('1px solid $primary', resolve).value).toBe('1px solid var(--primary)');
+    expect(replaceScssReferences('darken($primary, 10%)', resolve)).toEqual({
+      value: 'darken($primary, 10%)',
+      changed: false,
+      unresolved: ['primary']
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import sugarss from 'sugarss';
+import postcss from 'postcss';
+import { defaultAdapters, findAdapter, isInSassMixin, isPreprocessorValue, replaceRegions } from '../syntax';
+
+describe('syntax', () => {
+  it('should extract <style> blocks from single file components', () => {
+    const content = '<template><div /></template>\n<style lang="scss" scoped>\n.a { color: #fff; }\n</style>\n<style lang="stylus">\n.b\n  color red\n</style>\n';
+    const regions = findAdapter('App.vue', defaultAdapters).extract(content, 'App.vue');
+
+    expect(regions).toHaveLength(1);
+    expect(regions[0].content).toBe('\n.a { color: #fff; }\n');
+    expect(regions[0].line).toBe(2);
+    expect(content.slice(regions[0].start, regions[0].end)).toBe(regions[0].content);
+  });
+
+  it('should only extract top-level <style> blocks of single file components', () => {
+    const content = [
+      '<script setup>',
+      "const tag = '<style>';",
+      "const html = '<style>.x { color: red; }</style>';",
+      '</script>',
+      '<template>',
+      '  <template v-if="ok"><style>.y { color: blue; }</style></template>',
+      '</template>',
+      '<!-- <style>.z { color: green; }</style> -->',
+      '<style>',
+      '.a { color: #fff; }',
+      '</style>'
+    ].join('\n');
+    const regions = findAdapter('App.vue', defaultAdapters).extract(content, 'App.vue');
+
+    expect(regions.map(region => region.content)).toEqual(['\n.a { color: #fff; }\n']);
+    expect(regions[0].line).toBe(9);
+    expect(content.slice(regions[0].start, regions[0].end)).toBe(regions[0].content);
+  });
+
+  it('should extract styled-components templates and restore interpolations', () => {
+    const content = [
+      'const Button = styled.button`',
+      '  color: #fff;',
+      '  background: ${props => props.bg};',
+      '  ${mixin}',
+      '`;',
+      'const label = `not ${css}`;'
+    ].join('\n');
+    const regions = findAdapter('Button.tsx', defaultAdapters).extract(content, 'Button.tsx');
+
+    expect(regions).toHaveLength(1);
+    expect(regions[0].line).toBe(1);
+    expect(regions[0].content).toBe('\n  color: #fff;\n  background: __css_to_variable_0__;\n  /*__css_to_variable_1__*/\n');
+    expect(replaceRegions(content, regions, [regions[0].content.replace('#fff', 'var(--a)')]))
+      .toBe(content.replace('#fff', 'var(--a)'));
+  });
+
+  it('should fall back to plain CSS for unknown extensions', () => {
+    expect(findAdapter('a.pcss', defaultAdapters)).toBe(defaultAdapters[0]);
+    expect(findAdapter('a.unknown', defaultAdapters)).toBe(defaultAdapters[0]);
+  });
+
+  it('should detect LESS escapes and LESS/Sass functions', () => {
+    expect(isPreprocessorValue('darken(#fff, 10%)')).toBe(true);
+    expect(isPreprocessorValue('~"#fff"')).toBe(true);
+    expect(isPreprocessorValue('1px solid fade(#000, 20%)')).toBe(true);
+    expect(isPreprocessorValue('color.adjust(#fff, $lightness: -10%)')).toBe(true);
+    expect(isPreprocessorValue('rgba(0, 0, 0, .5)')).toBe(false);
+    expect(isPreprocessorValue('#fff url(./images/logo.png)')).toBe(false);
+    expect(isPreprocessorValue('color-mix(in srgb, #fff, #000)')).toBe(false);
+  });
+
+  it('should find declarations inside Sass mixin lines', () => {
+    const root = postcss().process('.c\n  +mix(#000)\n  &:hover\n    color: red\n.d\n  color: blue\n', { syntax: sugarss }).root;
+    const declarations: postcss.Declaration[] = [];
+    root.walkDecls(decl => { declarations.push(decl); });
+    expect(declarations.map(decl => [decl.value, isInSassMixin(decl)])).toEqual([['red', true], ['blue', false]]);
+  });
+});
@@ -0,0 +1,78 @@
+import postcss from 'postcss';
+import { mergeThemeBlocks, renderThemeBlocks, resolveThemeValues } from '../theme';
+
+describe('theme', () => {
+  const variables: Array<[string, string]> = [
+    ['--primary', '#0D3376'],
+    ['--text', '#FFF'],
+    ['--border', '#eee']
+  ];
+
+  it('should match theme values by variable name or original value', () => {
+    const { values, missing } = resolveThemeValues({
+      dark: { '--primary': '#000', '#ffffff': '#111' },
+      brand: { '#0d3376': 'red' }
+    }, variables);
+
+    expect(values.get('dark')).toEqual([['--primary', '#000'], ['--text', '#111']]);
+    expect(missing.get('dark')).toEqual(['--border']);
+    expect(values.get('brand')).toEqual([['--primary', 'red']]);
+    expect(missing.get('brand')).toEqual(['--text', '--border']);
+  });
+
+  it('should render data-theme blocks and prefers-color-scheme for dark/light', () => {
+    const content = renderThemeBlocks(new Map([
+      ['dark', [['--primary', '#000']]],
+      ['brand', [['--primary', 'red']]]
+    ]));
+
+    expect(content).toBe([
+      '',
+      '[data-theme="dark"] {',
+      '  --primary: #000;',
+      '}',
+      '',
+      '@media (prefers-color-scheme: dark) {',
+      '  :root:not([data-theme]) {',
+      '    --primary: #000;',
+      '  }',
+      '}',
+      '',
+      '[data-theme="brand"] {',
+      '  --primary: red;',
+      '}',
+      ''
+    ].join('\n'));
+  });
+
+  it('should merge new theme values into existing blocks and add missing ones', () => {
+    const root = postcss.parse(':root {\n  --a: #fff;\n}\n' + renderThemeBlocks(new Map([['dark', [['--a', '#000']]]])));
+    mergeThemeBlocks(root, renderThemeBlocks(new Map([
+      ['dark', [['--b', '#111']]],
+      ['brand', [['--b', 'red']]]
+    ])));
+
+    expect(root.toString()).toBe([
+      ':root {',
+      '  --a: #fff;',
+      '}',
+      '',
+      '[data-theme="dark"] {',
+      '  --a: #000;',
+      '  --b: #111;',
+      '}',
+      '',
+      '@media (prefers-color-scheme: dark) {',
+      '  :root:not([data-theme]) {',
+      '    --a: #000;',
+      '    --b: #111;',
+      '  }',
+      '}',
+      '',
+      '[data-theme="brand"] {',
+      '  --b: red;',
+      '}',
+      ''
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,35 @@
+import { createTokenIndex, findNearestToken, findToken, parseTokenJson } from '../tokens';
+
+describe('tokens', () => {
+  it('should flatten nested, DTCG and flat JSON tokens', () => {
+    const definitions = parseTokenJson({
+      '--brand': '#0D3376',
+      color: {
+        $type: 'color',
+        gray: { 100: { $value: '#f5f5f5', $description: '浅灰' } },
+        link: { value: '{color.gray.100}' }
+      }
+    });
+
+    expect(Array.from(definitions.entries())).toEqual([
+      ['--brand', '#0D3376'],
+      ['--color-gray-100', '#f5f5f5'],
+      ['--color-link', 'var(--color-gray-100)']
+    ]);
+  });
+
+  it('should match normalized values and find near colors within tolerance', () => {
+    const index = createTokenIndex(new Map([
+      ['--white', '#FFF'],
+      ['--surface', 'var(--white)'],
+      ['--space', '8px']
+    ]));
+
+    expect(findToken(index, 'rgb(255, 255, 255)')).toBe('--white');
+    expect(findToken(index, '8px')).toBe('--space');
+    expect(findToken(index, '#fefefe')).toBeUndefined();
+    expect(findNearestToken(index, '#fefefe', 2)).toEqual({ name: '--white', value: '#FFF', deltaE: expect.any(Number) });
+    expect(findNearestToken(index, '#eeeeee', 2)).toBeUndefined();
+    expect(findNearestToken(index, '#fefefe', 0)).toBeUndefined();
+  });
+});
@@ -0,0 +1,128 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import valueParser from 'postcss-value-parser';
+
+/**
+ * 解析后的图片资源
+ */
+export interface Asset {
+  /** 去重键：本地图片为内容哈希，远程图片为URL */
+  key: string;
+  /** 内容哈希（远程图片为URL的哈希），用于变量名冲突时的后缀 */
+  hash: string;
+  /** 变量值：url(data:...) 或 url('...') */
+  value: string;
+  /** 用于生成变量名的文件名 */
+  name: string;
+}
+
+export interface AssetOptions {
+  /** 小于等于该大小（字节）的本地图片内联为base64，否则引用图片路径 */
+  inlineLimit: number;
+  /** 是否将远程URL提取为变量（不下载） */
+  remote: boolean;
+  /** 资源变量文件所在目录，引用路径相对该目录生成 */
+  outputDir: string;
+}
+
+const MimeTypes: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif'
+};
+
+export const isRemoteUrl = (url: string): boolean => /^(https?:)?\/\//i.test(url);
+
+const stripQuery = (url: string): string => url.replace(/[?#].*$/, '');
+
+const isImagePath = (url: string): boolean => path.extname(stripQuery(url)).toLowerCase() in MimeTypes;
+
+/**
+ * 是否为需要处理的资源地址：本地图片或远程URL，data URI 除外
+ */
+export const isAssetUrl = (url: string): boolean => !/^data:/i.test(url) && (isRemoteUrl(url) || isImagePath(url));
+
+const sha1 = (content: string | Buffer): string => crypto.createHash('sha1').update(content).digest('hex');
+
+const toAssetName = (url: string): string => path.basename(stripQuery(url), path.extname(stripQuery(url)))
+  .toLowerCase()
+  .replace(/[^a-z0-9-]+/g, '-')
+  .replace(/^-+|-+$/g, '') || 'image';
+
+/**
+ * 获取 url() 中的地址
+ */
+function getUrl(node: valueParser.FunctionNode): string {
+  return valueParser.stringify(node.nodes).trim().replace(/^(['"])(.*)\1$/, '$2');
+}
+
+/**
+ * 找出属性值中 url() 引用的资源地址
+ */
+export function findAssetUrls(value: string): string[] {
+  const urls: string[] = [];
+  valueParser(value).walk((node) => {
+    if (node.type === 'function' && node.value.toLowerCase() === 'url') {
+      const url = getUrl(node);
+      if (isAssetUrl(url)) {
+        urls.push(url);
+      }
+      return false;
+    }
+  });
+  return urls;
+}
+
+/**
+ * 将属性值中的 url() 替换为 replace 返回的内容，返回 undefined 时保持不变
+ */
+export function replaceAssetUrls(value: string, replace: (url: string) => string | undefined): string {
+  const parsed = valueParser(value);
+  parsed.walk((node) => {
+    if (node.type !== 'function' || node.value.toLowerCase() !== 'url') {
+      return;
+    }
+    const replacement = replace(getUrl(node));
+    if (replacement !== undefined) {
+      const replaced = node as unknown as valueParser.WordNode;
+      replaced.type = 'word';
+      replaced.value = replacement;
+    }
+    return false;
+  });
+  return valueParser.stringify(parsed.nodes);
+}
+
+/**
+ * 解析资源：小图片内联为base64，大图片引用相对资源变量文件的路径，远程URL原样引用
+ * 本地图片不存在或未开启远程URL时返回 null
+ */
+export async function resolveAsset(url: string, fromFile: string, options: AssetOptions): Promise<Asset | null> {
+  if (isRemoteUrl(url)) {
+    return options.remote
+      ? { key: url, hash: sha1(url), value: `url('${url}')`, name: toAssetName(url) }
+      : null;
+  }
+
+  const filePath = path.resolve(path.dirname(fromFile), stripQuery(url));
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+  const content = await fs.promises.readFile(filePath);
+  const hash = sha1(content);
+  const ext = path.extname(filePath).toLowerCase();
+  if (content.length <= options.inlineLimit) {
+    return { key: hash, hash, value: `url(data:${MimeTypes[ext]};base64,${content.toString('base64')})`, name: toAssetName(url) };
+  }
+
+  let relativePath = path.relative(options.outputDir, filePath).split(path.sep).join('/');
+  if (!relativePath.startsWith('.')) {
+    relativePath = `./${relativePath}`;
+  }
+  return { key: hash, hash, value: `url('${relativePath}')`, name: toAssetName(url) };
+}
@@ -0,0 +1,197 @@
+import valueParser from 'postcss-value-parser';
+
+/** 令牌分类：同一分类的属性共用命名规则与取值，如 margin 与 padding 都属于 spacing */
+export type TokenCategory = 'spacing' | 'radius' | 'font-size' | 'font-weight' | 'z-index' | 'shadow';
+
+/** 长度单位：px 或以 remBase 为基准换算的 rem */
+export type LengthUnit = 'px' | 'rem';
+
+interface CategoryDefinition {
+  /** 属于该分类的属性 */
+  properties: string[];
+  /** 变量名中的分类名，如 --spacing-4 */
+  name: string;
+  /** 取值中的长度是否参与单位换算 */
+  lengths: boolean;
+  /** 是否检查取值是否落在刻度上 */
+  scaled: boolean;
+}
+
+/**
+ * 内置令牌分类
+ */
+export const TokenCategories: Record<TokenCategory, CategoryDefinition> = {
+  spacing: {
+    properties: ['margin', 'margin-top', 'margin-right', 'margin-bottom', 'margin-left', 'padding', 'padding-top', 'padding-right', 'padding-bottom', 'padding-left', 'gap', 'row-gap', 'column-gap'],
+    name: 'spacing',
+    lengths: true,
+    scaled: true
+  },
+  radius: {
+    properties: ['border-radius', 'border-top-left-radius', 'border-top-right-radius', 'border-bottom-right-radius', 'border-bottom-left-radius'],
+    name: 'radius',
+    lengths: true,
+    scaled: true
+  },
+  'font-size': {
+    properties: ['font-size'],
+    name: 'font-size',
+    lengths: true,
+    scaled: false
+  },
+  'font-weight': {
+    properties: ['font-weight'],
+    name: 'font-weight',
+    lengths: false,
+    scaled: false
+  },
+  'z-index': {
+    properties: ['z-index'],
+    name: 'z',
+    lengths: false,
+    scaled: false
+  },
+  shadow: {
+    properties: ['box-shadow', 'text-shadow'],
+    name: 'shadow',
+    lengths: true,
+    scaled: false
+  }
+};
+
+/** 不作为令牌提取的关键字：CSS 全局关键字、none、auto */
+const SKIPPED_KEYWORDS = ['inherit', 'initial', 'unset', 'revert', 'revert-layer', 'none', 'auto'];
+
+/** 取值依赖上下文的函数，不提取，其中的长度也不换算 */
+const DYNAMIC_FUNCTIONS = ['calc', 'var', 'env', 'min', 'max', 'clamp'];
+
+/** 参与换算的长度单位 */
+const LENGTH_UNITS = ['px', 'rem'];
+
+/**
+ * 属性所属的分类（仅在启用的分类中查找）
+ */
+export function getTokenCategory(property: string, categories: TokenCategory[]): TokenCategory | undefined {
+  return categories.find(category => TokenCategories[category].properties.includes(property));
+}
+
+/**
+ * 启用的分类包含的全部属性
+ */
+export function getCategoryProperties(categories: TokenCategory[]): string[] {
+  return categories.flatMap(category => TokenCategories[category].properties);
+}
+
+const formatNumber = (value: number): string => String(Number(value.toFixed(4)));
+
+/**
+ * 取值是否可以提取为分类令牌：包含全局关键字、none、auto 或 calc()、var() 等函数时跳过
+ */
+export function isTokenValue(value: string): boolean {
+  let tokenValue = true;
+  valueParser(value).walk((node) => {
+    if (node.type === 'word' && SKIPPED_KEYWORDS.includes(node.value.toLowerCase())
+      || node.type === 'function' && DYNAMIC_FUNCTIONS.includes(node.value.toLowerCase())) {
+      tokenValue = false;
+    }
+  });
+  return tokenValue;
+}
+
+/**
+ * 逐个访问值中的 px / rem 长度（calc() 等函数中的除外），回调返回新内容时替换该长度
+ */
+function walkLengths(value: string, visit: (number: number, unit: string) => string | void): string {
+  const parsed = valueParser(value);
+  parsed.walk((node) => {
+    if (node.type === 'function' && DYNAMIC_FUNCTIONS.includes(node.value.toLowerCase())) {
+      return false;
+    }
+    if (node.type !== 'word') {
+      return;
+    }
+    const length = valueParser.unit(node.value);
+    if (length && LENGTH_UNITS.includes(length.unit.toLowerCase())) {
+      const replacement = visit(Number(length.number), length.unit.toLowerCase());
+      if (replacement !== undefined) {
+        node.value = replacement;
+      }
+    }
+  });
+  return valueParser.stringify(parsed.nodes);
+}
+
+/**
+ * 值中的长度按 px 计算，rem 按 remBase 换算
+ */
+export function getPixelLengths(value: string, remBase: number): number[] {
+  const lengths: number[] = [];
+  walkLengths(value, (number, unit) => {
+    lengths.push(unit === 'rem' ? number * remBase : number);
+  });
+  return lengths;
+}
+
+/**
+ * 逐个替换值中的长度，回调接收以 px 计的长度并返回新的 px 长度，最终按 unit 输出
+ */
+export function mapLengths(value: string, unit: LengthUnit, remBase: number, mapper: (pixels: number) => number = pixels => pixels): string {
+  return walkLengths(value, (number, sourceUnit) => {
+    const pixels = mapper(sourceUnit === 'rem' ? number * remBase : number);
+    // 原值为 0 时保持不变
+    if (pixels === 0 && number === 0) {
+      return;
+    }
+    return unit === 'rem' ? `${formatNumber(pixels / remBase)}rem` : `${formatNumber(pixels)}px`;
+  });
+}
+
+/**
+ * 刻度上与长度最接近的值：scale 为数字时表示步长，为数组时为可选的取值（px）
+ */
+export function snapToScale(pixels: number, scale: number | number[]): number {
+  if (!Array.isArray(scale)) {
+    return scale > 0 ? Math.round(pixels / scale) * scale : pixels;
+  }
+  if (scale.length === 0) {
+    return pixels;
+  }
+  // 负值按绝对值匹配刻度
+  const sign = pixels < 0 ? -1 : 1;
+  const nearest = scale.reduce((best, step) => Math.abs(step - Math.abs(pixels)) < Math.abs(best - Math.abs(pixels)) ? step : best);
+  return sign * nearest;
+}
+
+/** 变量名片段：% 写作 pct，其余非法字符替换为 -，并合并连续的 - */
+const toNamePart = (value: string): string => value.toLowerCase()
+  .replace(/%/g, 'pct')
+  .replace(/[^\w-]+/g, '-')
+  .replace(/-{2,}/g, '-')
+  .replace(/^-+|-+$/g, '');
+
+/**
+ * 分类变量名的后缀：px、rem 长度按 px（有步长时按步数）命名，如 16px → 16 或 4（步长 4px），其他单位保留单位名，如 50% → 50pct
+ * 非长度值使用值本身（如 font-weight: bold → bold），多个值用 - 连接，负数以 n 开头，阴影等无法由值命名时返回空字符串
+ */
+export function getCategoryKey(category: TokenCategory, value: string, remBase: number, scale?: number | number[]): string {
+  const format = (number: number): string =>
+    `${number < 0 ? 'n' : ''}${formatNumber(Math.abs(number)).replace('.', '_')}`;
+  const step = TokenCategories[category].scaled && typeof scale === 'number' && scale > 0 ? scale : 1;
+
+  if (category === 'shadow') {
+    return '';
+  }
+  const parts = value.trim().split(/\s+/).map((part) => {
+    const length = valueParser.unit(part);
+    if (!length) {
+      return toNamePart(part);
+    }
+    const number = Number(length.number);
+    const unit = length.unit.toLowerCase();
+    if (TokenCategories[category].lengths && LENGTH_UNITS.includes(unit)) {
+      return format((unit === 'rem' ? number * remBase : number) / step);
+    }
+    return `${format(number)}${toNamePart(unit)}`;
+  });
+  return toNamePart(parts.join('-'));
+}
@@ -0,0 +1,114 @@
+import type { CheckViolation } from './index';
+
+export type CheckFormat = 'table' | 'json' | 'sarif' | 'checkstyle';
+
+export const CHECK_FORMATS: CheckFormat[] = ['table', 'json', 'sarif', 'checkstyle'];
+
+/** 规则ID，用于 SARIF / checkstyle 报告 */
+const RULE_ID = 'css-to-variable/no-hardcoded-value';
+
+const escapeXml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const describe = (violation: CheckViolation): string =>
+  `属性 ${violation.property} 使用了字面值 ${violation.value}，应改为CSS变量`;
+
+/**
+ * 终端表格：文件:行:列  属性  值
+ */
+function formatTable(violations: CheckViolation[]): string {
+  if (violations.length === 0) {
+    return '✅ 未发现需要提取为变量的字面值';
+  }
+
+  const rows = violations.map(violation => [
+    `${violation.filePath}:${violation.line}:${violation.column}`,
+    violation.property,
+    violation.value
+  ]);
+  const header = ['位置', '属性', '值'];
+  const widths = header.map((title, index) => Math.max(title.length, ...rows.map(row => row[index].length)));
+  const format = (row: string[]): string => row.map((cell, index) => cell.padEnd(widths[index])).join('  ').trimEnd();
+
+  return [
+    format(header),
+    format(widths.map(width => '-'.repeat(width))),
+    ...rows.map(format),
+    '',
+    `❌ 共发现 ${violations.length} 处字面值，分布在 ${new Set(violations.map(item => item.filePath)).size} 个文件中`
+  ].join('\n');
+}
+
+/**
+ * SARIF 2.1.0 报告，可直接上传到代码扫描平台
+ */
+function formatSarif(violations: CheckViolation[]): string {
+  return JSON.stringify({
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'css-to-variable',
+          rules: [{
+            id: RULE_ID,
+            shortDescription: { text: '匹配属性中不应使用字面值' }
+          }]
+        }
+      },
+      results: violations.map(violation => ({
+        ruleId: RULE_ID,
+        level: 'error',
+        message: { text: describe(violation) },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: violation.filePath },
+            region: { startLine: violation.line, startColumn: violation.column }
+          }
+        }]
+      }))
+    }]
+  }, null, 2);
+}
+
+/**
+ * checkstyle XML 报告
+ */
+function formatCheckstyle(violations: CheckViolation[]): string {
+  const byFile = new Map<string, CheckViolation[]>();
+  for (const violation of violations) {
+    if (!byFile.has(violation.filePath)) {
+      byFile.set(violation.filePath, []);
+    }
+    byFile.get(violation.filePath)!.push(violation);
+  }
+
+  const files = Array.from(byFile.entries()).map(([filePath, items]) => [
+    `  <file name="${escapeXml(filePath)}">`,
+    ...items.map(item =>
+      `    <error line="${item.line}" column="${item.column}" severity="error" message="${escapeXml(describe(item))}" source="${RULE_ID}"/>`
+    ),
+    '  </file>'
+  ].join('\n'));
+
+  return ['<?xml version="1.0" encoding="UTF-8"?>', '<checkstyle version="4.3">', ...files, '</checkstyle>'].join('\n');
+}
+
+/**
+ * 按指定格式输出检查结果
+ */
+export function formatViolations(violations: CheckViolation[], format: CheckFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(violations, null, 2);
+    case 'sarif':
+      return formatSarif(violations);
+    case 'checkstyle':
+      return formatCheckstyle(violations);
+    default:
+      return formatTable(violations);
+  }
+}
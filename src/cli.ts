@@ -1,10 +1,285 @@
 #!/usr/bin/env node
 
-import { program } from 'commander';
+import { Command, program } from 'commander';
 import { CssToVariable } from './index';
+import { CssToVariableConfig, findConfigFile, loadConfig, resolveConfig, validateConfig } from './config';
+import { Presets } from './constant';
+import { TokenCategories, TokenCategory } from './categories';
+import { CHECK_FORMATS, CheckFormat, formatViolations } from './check';
+import { EXPORT_FORMATS } from './formats';
+import { formatReport, REPORT_EXTENSIONS, REPORT_FORMATS, ReportFormat } from './report';
 import * as path from 'path';
 import * as fs from 'fs';
 
+/**
+ * 解析布尔参数，兼容 --flag、--flag true、--flag false 三种写法
+ */
+function parseBoolean(value?: string): boolean {
+  return value === undefined || value === 'true';
+}
+
+/**
+ * 收集可重复的参数，如 --deny-value a --deny-value b
+ */
+function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
+/**
+ * 添加输出控制参数
+ */
+function withOutputOptions(command: Command): Command {
+  return command
+    .option('--quiet', '只输出错误信息')
+    .option('--json', '以 JSON Lines 格式输出事件（每行一个 { "event": ... } 对象），便于其他工具解析');
+}
+
+/**
+ * 添加文件、选择器及值的过滤参数
+ */
+function withFilterOptions(command: Command): Command {
+  return command
+    .option('--ignore <globs>', '忽略的文件(glob，相对目录路径)，用逗号分隔，如 vendor/**')
+    .option('--include-selector <regex>', '只处理选择器匹配的声明，可重复指定', collect)
+    .option('--exclude-selector <regex>', '跳过选择器匹配的声明，可重复指定', collect)
+    .option('--allow-value <regex>', '只提取匹配的值，可重复指定', collect)
+    .option('--deny-value <regex>', '跳过匹配的值，可重复指定', collect);
+}
+
+/**
+ * 加载配置文件：优先使用 --config 指定的文件，否则从当前目录查找
+ */
+function loadCliConfig(configPath?: string, silent = false): CssToVariableConfig {
+  const filePath = configPath || findConfigFile(process.cwd());
+  if (!filePath) {
+    return {};
+  }
+  if (!silent) {
+    console.log(`⚙️ 使用配置文件: ${path.relative(process.cwd(), path.resolve(filePath))}`);
+  }
+  return loadConfig(filePath);
+}
+
+/**
+ * 读取主题定义JSON文件
+ */
+function readThemes(filePath: string): Record<string, Record<string, string>> {
+  const themesPath = path.resolve(filePath);
+  if (!fs.existsSync(themesPath)) {
+    throw new Error(`主题定义文件不存在: ${filePath}`);
+  }
+  const themes = JSON.parse(fs.readFileSync(themesPath, 'utf-8'));
+  if (typeof themes !== 'object' || themes === null || Array.isArray(themes)) {
+    throw new Error('主题定义文件格式错误，应为 { "主题名": { "变量名或原始值": "取值" } }');
+  }
+  return themes;
+}
+
+/**
+ * 错误信息，postcss 语法错误的 message 中已包含文件路径，只取其原因
+ */
+const errorMessage = (error: Error): string => (error as Error & { reason?: string }).reason || error.message;
+
+interface ReporterOptions {
+  /** 只输出错误 */
+  quiet?: boolean;
+  /** 以 JSON Lines 输出所有事件 */
+  json?: boolean;
+  /** 是否输出逐个文件的处理进度 */
+  progress?: boolean;
+}
+
+/**
+ * 监听实例事件并输出到终端，库本身不输出任何日志
+ */
+function attachReporter(cssToVariable: CssToVariable, { quiet = false, json = false, progress = true }: ReporterOptions): void {
+  if (json) {
+    const print = (event: string, payload: object): void => console.log(JSON.stringify({ event, ...payload }));
+    cssToVariable
+      .on('log', message => print('log', { message }))
+      .on('fileStart', event => print('fileStart', event))
+      .on('fileDone', event => print('fileDone', event))
+      .on('variable', event => print('variable', event))
+      .on('warning', event => print('warning', event))
+      .on('error', ({ error, filePath, line, column }) => print('error', { message: errorMessage(error), filePath, line, column }));
+    return;
+  }
+
+  cssToVariable.on('error', ({ error, filePath, line, column }) => {
+    const location = [filePath, line, column].filter(part => part !== undefined).join(':');
+    console.error(`❌ 错误：${location ? `${location} ` : ''}${errorMessage(error)}`);
+  });
+  if (quiet) {
+    return;
+  }
+  cssToVariable
+    .on('log', message => console.log(message))
+    .on('warning', ({ message }) => console.warn(`⚠️ 警告：${message}`));
+  if (progress) {
+    cssToVariable
+      .on('fileStart', ({ filePath }) => console.log(`📝 正在处理文件: ${filePath}`))
+      .on('fileDone', ({ variables, index, total }) => {
+        if (variables > 0) {
+          console.log(`✨ 从文件中提取了 ${variables} 个变量`);
+        }
+        console.log(`📊 总进度: ${Math.round((index + 1) / total * 100)}%`);
+      });
+  }
+}
+
+/**
+ * 输出 dryRun 模式下的文件差异
+ */
+function printFileDiffs(cssToVariable: CssToVariable, json = false): void {
+  for (const { filePath, diff } of cssToVariable.getFileDiffs()) {
+    console.log(json ? JSON.stringify({ event: 'diff', filePath, diff }) : diff);
+  }
+}
+
+/**
+ * 输出与已有令牌相近、需要人工确认的颜色
+ */
+function printTokenSuggestions(cssToVariable: CssToVariable): void {
+  for (const suggestion of cssToVariable.getTokenSuggestions()) {
+    console.log(`  ${suggestion.filePath}:${suggestion.line} ${suggestion.property}: ${suggestion.value} ≈ ${suggestion.token} (${suggestion.tokenValue}, ΔE ${suggestion.deltaE})`);
+  }
+}
+
+/**
+ * 输出不在刻度上的 spacing、radius 取值
+ */
+function printScaleMismatches(cssToVariable: CssToVariable): void {
+  for (const mismatch of cssToVariable.getScaleMismatches()) {
+    console.log(`  ${mismatch.filePath}:${mismatch.line} ${mismatch.property}: ${mismatch.value} → ${mismatch.snappedValue}`);
+  }
+}
+
+/**
+ * 解析 --scale：单个数字为步长，逗号分隔时为可选的取值
+ */
+function parseScale(scale: string): number | number[] {
+  const values = scale.split(',').map(Number);
+  return values.length === 1 ? values[0] : values;
+}
+
+/**
+ * 合并 默认值 < 配置文件 < 命令行参数，校验必填项后创建实例
+ */
+function createFromCli(
+  options: Record<string, string | string[] | boolean | undefined>,
+  defaults: CssToVariableConfig,
+  silent = false
+): { cssToVariable: CssToVariable; config: CssToVariableConfig } {
+  let config: CssToVariableConfig;
+  try {
+    const cliConfig = validateConfig({
+      directory: options.directory && path.resolve(options.directory as string),
+      properties: options.properties ? (options.properties as string).split(',') : undefined,
+      preset: options.preset ? (options.preset as string).split(',') : undefined,
+      prefix: options.prefix,
+      outputFile: options.output,
+      pattern: options.pattern,
+      ignore: options.ignore ? (options.ignore as string).split(',') : undefined,
+      includeSelectors: options.includeSelector as string[] | undefined,
+      excludeSelectors: options.excludeSelector as string[] | undefined,
+      allowValues: options.allowValue as string[] | undefined,
+      denyValues: options.denyValue as string[] | undefined,
+      assetsOutput: options.assetsOutput,
+      assetInlineLimit: options.assetInlineLimit !== undefined ? Number(options.assetInlineLimit) : undefined,
+      remoteAssets: options.remoteAssets,
+      assetMixins: options.assetMixins ? (options.assetMixins as string).split(',') : undefined,
+      splitByFolder: options.splitByFolder,
+      exportMap: options.exportMap,
+      dryRun: options.dryRun,
+      dedupe: options.dedupe,
+      themes: options.themes ? readThemes(options.themes as string) : undefined,
+      scssVariables: options.scssVariables,
+      valueMode: options.valueMode,
+      tokenFiles: options.tokens ? (options.tokens as string).split(',') : undefined,
+      tokenTolerance: options.tokenTolerance !== undefined ? Number(options.tokenTolerance) : undefined,
+      merge: options.merge,
+      naming: options.naming,
+      palette: options.palette && path.resolve(options.palette as string),
+      formats: options.format ? (options.format as string).split(',') : undefined,
+      concurrency: options.concurrency !== undefined ? Number(options.concurrency) : undefined,
+      failFast: options.failFast,
+      injectImport: options.injectImport,
+      importPath: options.importPath,
+      scope: options.scope,
+      scopeSelector: options.scopeSelector,
+      categories: typeof options.categories === 'string' ? options.categories.split(',') as TokenCategory[] : options.categories as boolean | undefined,
+      unit: options.unit,
+      remBase: options.remBase !== undefined ? Number(options.remBase) : undefined,
+      scale: options.scale ? parseScale(options.scale as string) : undefined,
+      snapToScale: options.snapToScale
+    }, '命令行参数');
+    config = resolveConfig(defaults, loadCliConfig(options.config as string | undefined, silent), cliConfig);
+  } catch (error) {
+    console.error('❌ 错误：', (error as Error).message);
+    process.exit(1);
+  }
+
+  if (!config.directory || (!config.properties || config.properties.length === 0) && !config.categories) {
+    console.error('❌ 错误：请通过命令行参数或配置文件指定 directory 和 properties（或 preset、categories）！');
+    process.exit(1);
+  }
+
+  const directory = path.resolve(config.directory);
+
+  // 检查目录是否存在
+  if (!fs.existsSync(directory)) {
+    console.error('❌ 错误：指定的目录不存在！');
+    process.exit(1);
+  }
+
+  const cssToVariable = new CssToVariable({
+    ...config,
+    directory,
+    properties: config.properties || []
+  });
+  return { cssToVariable, config };
+}
+
+/**
+ * 执行变量提取
+ */
+function runExtract(options: Record<string, string | string[] | boolean | undefined>, defaults: CssToVariableConfig): void {
+  const { quiet, json } = options as { quiet?: boolean; json?: boolean };
+  const { cssToVariable, config } = createFromCli(options, defaults, quiet || json);
+  attachReporter(cssToVariable, { quiet, json });
+
+  cssToVariable.extract()
+    .then((result) => {
+      // 有文件出错被跳过时以非零退出码退出，其余文件仍正常写入
+      if (result.errors.length > 0) {
+        process.exitCode = 1;
+      }
+      if (json) {
+        cssToVariable.getTokenSuggestions().forEach(suggestion => console.log(JSON.stringify({ event: 'suggestion', ...suggestion })));
+        cssToVariable.getScaleMismatches().forEach(mismatch => console.log(JSON.stringify({ event: 'scaleMismatch', ...mismatch })));
+        printFileDiffs(cssToVariable, true);
+        console.log(JSON.stringify({ event: 'result', ...result }));
+        return;
+      }
+      if (!quiet) {
+        printTokenSuggestions(cssToVariable);
+        printScaleMismatches(cssToVariable);
+      }
+      // 预览模式的差异即为输出结果，--quiet 时同样输出
+      if (config.dryRun) {
+        printFileDiffs(cssToVariable);
+        return;
+      }
+      if (!quiet) {
+        console.log('✨ CSS变量提取完成！');
+      }
+    })
+    .catch((error) => {
+      console.error('❌ 发生错误：', error);
+      process.exit(1);
+    });
+}
+
 program
   .name('hd-css-to-variable')
   .description('将CSS/SCSS文件中的指定属性值提取为全局CSS变量')
@@ -12,31 +287,276 @@ program
   .addHelpText('after', `
 示例:
   $ hd-css-to-variable build -d ./src
+  $ hd-css-to-variable build --config ./css-to-variable.config.js
+  $ hd-css-to-variable extract -d ./src --preset colors,spacing
   $ hd-css-to-variable extract -d ./src -p color,background-color
   $ hd-css-to-variable extract -d ./src -p color,background-image --prefix theme --assets-output true
+  $ hd-css-to-variable extract -d ./src --preset colors --tokens tokens.json --token-tolerance 2
+  $ hd-css-to-variable extract -d ./src --preset colors --format css,dtcg,ts
+  $ hd-css-to-variable extract -d ./src --preset colors --ignore "vendor/**" --exclude-selector "^\\.el-"
+  $ hd-css-to-variable watch -d ./src --preset colors
+  $ hd-css-to-variable check -d ./src --format sarif > report.sarif
+  $ hd-css-to-variable report -d ./src --format markdown --out report.md
+  $ hd-css-to-variable restore -d ./src
+  $ hd-css-to-variable inline -d ./src --variables variables.css
 
 命令:
-  build                使用预设参数执行变量提取
+  build                使用配置文件或预设参数执行变量提取
   extract              使用自定义参数执行变量提取
+  watch                监听文件变更，保存时自动提取
+  check                检查是否仍有应提取为变量的字面值（用于CI）
+  report               生成变量使用报告(html/markdown/json)，不修改任何文件
+  restore              根据替换记录还原提取前的文件
+  inline               将var()变量引用替换为具体值
 
 选项:
   -d, --directory      要扫描的目录路径
   -p, --properties     要提取的CSS属性列表，用逗号分隔
-  --prefix             变量名前缀 (默认: "var")
+  -c, --config         配置文件路径 (默认查找 css-to-variable.config.{js,json})
+  --preset             使用的预设，用逗号分隔 (colors, borders, spacing, typography)
+  --prefix             变量名前缀 (默认: "")
   --output            输出的变量文件名 (默认: "variables.css")
-  --pattern           文件匹配模式 (默认: "**/*.{css,scss}")
-  --assets-output     是否输出图片资源的base64变量 (默认: false)
+  --pattern           文件匹配模式 (默认: "**/*.{css,scss,less,sass,vue,svelte}")
+  --ignore            忽略的文件(glob)，用逗号分隔，如 vendor/**,**/*.min.css
+  --include-selector  只处理选择器匹配(正则)的声明，可重复指定
+  --exclude-selector  跳过选择器匹配(正则)的声明，可重复指定
+  --allow-value       只提取匹配(正则)的值，可重复指定
+  --deny-value        跳过匹配(正则)的值，可重复指定
+  --assets-output     是否将图片资源提取为变量并输出 assets.css (默认: false)
+  --asset-inline-limit  小于等于该大小(字节)的图片内联为base64，更大的图片引用路径 (默认: 4096)
+  --remote-assets     将远程图片URL同样提取为变量
+  --asset-mixins      参数为图片地址的SCSS mixin名称，用逗号分隔，如 bg,retina-bg
+  --split-by-folder   是否按文件夹拆分变量文件 (默认: false)
+  --export-map        是否导出变量映射关系 (默认: false)
+  --dry-run           仅预览改动(unified diff)，不写入任何文件
+  --dedupe [mode]     按值去重，property(同属性，默认) 或 global(跨属性)
+  --themes            主题定义JSON文件，生成 [data-theme] 主题变量块
+  --scss-variables    将SCSS变量转换为CSS自定义属性，并改写 $变量 引用
+  --value-mode        属性值提取方式：whole(整个值，默认) 或 token(只提取颜色片段)
+  --tokens            已有的设计令牌文件(CSS变量文件或JSON)，用逗号分隔，匹配的值复用已有变量
+  --token-tolerance   颜色近似匹配的色差阈值(ΔE)，阈值内的颜色单独报告 (默认: 0 不检测)
+  --merge             合并模式：保留已有变量文件中的变量，只追加新变量，重复执行不产生改动
+  --naming            变量命名方式：path(文件夹/类名/属性，默认) 或 semantic(按颜色命名，如 --color-blue-700)
+  --palette           semantic 命名使用的调色板名称字典JSON文件
+  --categories [names]  启用的令牌分类，用逗号分隔 (spacing, radius, font-size, font-weight, z-index, shadow)，不指定时启用全部
+  --unit              分类取值中长度的输出单位：px(默认，保持原单位) 或 rem
+  --rem-base          px 与 rem 换算的基准字号 (默认: 16)
+  --scale             spacing、radius 的刻度：步长(px)，或用逗号分隔的可选取值
+  --snap-to-scale     将不在刻度上的值对齐到最接近的刻度值（默认只报告）
+  --format            extract 的输出格式，可组合 css,dtcg,scss,ts,tailwind；check 的报告格式 table,json,sarif,checkstyle；report 的报告格式 html,markdown,json
+  --inject-import     在改写的源文件（或指定的入口样式文件）中引入生成的变量文件
+  --import-path       引入变量文件使用的路径（如别名），默认为相对路径
+  --scope             变量作用域：global(默认)、folder 或 file，只在一个作用域中使用的变量声明在组件根选择器上
+  --scope-selector    作用域变量的声明位置：where(默认) 或 root
+  --fail-fast         任一文件出错时立即中止，不写入任何文件（默认跳过出错的文件）
+  --concurrency       同时读取、解析的文件数 (默认: 8)
+  --quiet             只输出错误信息
+  --json              以 JSON Lines 格式输出事件，便于其他工具解析
   -h, --help          显示帮助信息
   -v, --version       显示版本号
 `);
 
-program
+withOutputOptions(program
   .command('build')
-  .description('使用预设参数执行变量提取')
-  .option('-d, --directory <path>', '要扫描的目录路径', './src')
+  .description('使用配置文件或预设参数执行变量提取')
+  .option('-d, --directory <path>', '要扫描的目录路径 (默认: "./src")')
+  .option('-c, --config <file>', '配置文件路径 (默认查找当前目录下的 css-to-variable.config.{js,json})')
+  .option('--preset <names>', `使用的预设，用逗号分隔，可选：${Object.keys(Presets).join(', ')} (默认: "colors")`)
+  .option('--dry-run', '仅预览改动，不写入任何文件')
+  .option('--fail-fast', '任一文件出错时立即中止，不写入任何文件')
+  .option('--concurrency <n>', '同时预读解析的文件数 (默认: 8)'))
+  .action((options) => {
+    runExtract(options, {
+      directory: './src',
+      preset: 'colors',
+      prefix: ''
+    });
+  });
+
+withOutputOptions(withFilterOptions(program
+  .command('extract')
+  .description('使用自定义参数执行变量提取')
+  .option('-d, --directory <path>', '要扫描的目录路径')
+  .option('-p, --properties <items>', '要提取的CSS属性列表，用逗号分隔')
+  .option('-c, --config <file>', '配置文件路径 (默认查找当前目录下的 css-to-variable.config.{js,json})')
+  .option('--preset <names>', `使用的预设，用逗号分隔，可选：${Object.keys(Presets).join(', ')}`)
+  .option('--prefix <string>', '变量名前缀')
+  .option('--output <filename>', '输出的变量文件名 (默认: "variables.css")')
+  .option('--pattern <pattern>', '文件匹配模式 (默认: "**/*.{css,scss,less,sass,vue,svelte}")')
+  .option('--assets-output [boolean]', '是否将图片资源提取为变量并输出 assets.css', parseBoolean)
+  .option('--asset-inline-limit <bytes>', '小于等于该大小(字节)的图片内联为base64，更大的图片引用路径 (默认: 4096)')
+  .option('--remote-assets', '将远程图片URL同样提取为变量')
+  .option('--asset-mixins <names>', '参数为图片地址的SCSS mixin名称，用逗号分隔')
+  .option('--split-by-folder [boolean]', '是否按文件夹拆分变量文件', parseBoolean)  // 添加新参数
+  .option('--export-map [boolean]', '是否导出变量映射关系', parseBoolean)
+  .option('--dry-run', '仅预览改动，不写入任何文件')
+  .option('--dedupe [mode]', '按值去重，可选 property(同属性) 或 global(跨属性)')
+  .option('--inject-import [entry]', '在改写的源文件中引入生成的变量文件，指定入口样式文件时只引入到该文件（SCSS 使用 @use）')
+  .option('--import-path <path>', '引入变量文件使用的路径，如别名 ~@/styles/variables.css')
+  .option('--scope <mode>', '变量作用域：global(全部声明在 :root)、folder 或 file(只在一个文件夹/文件中使用的变量声明在组件根选择器上)')
+  .option('--scope-selector <mode>', '作用域变量的声明位置：where(:where(根选择器)) 或 root(组件根规则)')
+  .option('--themes <file>', '主题定义JSON文件，生成 [data-theme] 主题变量块')
+  .option('--scss-variables', '将SCSS变量转换为CSS自定义属性，并改写 $变量 引用')
+  .option('--value-mode <mode>', '属性值提取方式：whole(整个值) 或 token(只提取颜色片段)')
+  .option('--tokens <files>', '已有的设计令牌文件(CSS变量文件或JSON)，用逗号分隔（相对目录路径）')
+  .option('--token-tolerance <deltaE>', '颜色近似匹配的色差阈值(ΔE)，阈值内的颜色单独报告')
+  .option('--merge', '合并模式：保留已有变量文件中的变量，只追加新变量')
+  .option('--naming <mode>', '变量命名方式：path(文件夹/类名/属性) 或 semantic(按颜色命名，如 --color-blue-700)')
+  .option('--palette <file>', 'semantic 命名使用的调色板名称字典JSON文件 { "名称": "颜色" }')
+  .option('--categories [names]', `启用的令牌分类，用逗号分隔，可选：${Object.keys(TokenCategories).join(', ')}，不指定时启用全部`)
+  .option('--unit <unit>', '分类取值中长度的输出单位：px(保持原单位) 或 rem')
+  .option('--rem-base <px>', 'px 与 rem 换算的基准字号 (默认: 16)')
+  .option('--scale <scale>', 'spacing、radius 的刻度：步长(px)，或用逗号分隔的可选取值，如 4 或 0,4,8,12,16,24')
+  .option('--snap-to-scale', '将不在刻度上的值对齐到最接近的刻度值（默认只报告）')
+  .option('--format <formats>', `输出格式，用逗号分隔，可组合：${EXPORT_FORMATS.join(', ')} (默认: "css")`)
+  .option('--fail-fast', '任一文件出错时立即中止，不写入任何文件')
+  .option('--concurrency <n>', '同时预读解析的文件数 (默认: 8)')))
+  .action((options) => {
+    runExtract(options, {});
+  });
+
+withOutputOptions(withFilterOptions(program
+  .command('watch')
+  .description('监听样式文件变更，保存时自动提取变更文件中的字面值')
+  .option('-d, --directory <path>', '要监听的目录路径 (默认: "./src")')
+  .option('-p, --properties <items>', '要提取的CSS属性列表，用逗号分隔')
+  .option('-c, --config <file>', '配置文件路径 (默认查找当前目录下的 css-to-variable.config.{js,json})')
+  .option('--preset <names>', `使用的预设，用逗号分隔，可选：${Object.keys(Presets).join(', ')} (默认: "colors")`)
+  .option('--prefix <string>', '变量名前缀')
+  .option('--output <filename>', '输出的变量文件名 (默认: "variables.css")')
+  .option('--pattern <pattern>', '文件匹配模式 (默认: "**/*.{css,scss,less,sass,vue,svelte}")')
+  .option('--dedupe [mode]', '按值去重，可选 property(同属性) 或 global(跨属性)')
+  .option('--inject-import [entry]', '在改写的源文件中引入生成的变量文件，指定入口样式文件时只引入到该文件（SCSS 使用 @use）')
+  .option('--import-path <path>', '引入变量文件使用的路径，如别名 ~@/styles/variables.css')
+  .option('--scope <mode>', '变量作用域：global(全部声明在 :root)、folder 或 file(只在一个文件夹/文件中使用的变量声明在组件根选择器上)')
+  .option('--scope-selector <mode>', '作用域变量的声明位置：where(:where(根选择器)) 或 root(组件根规则)')
+  .option('--value-mode <mode>', '属性值提取方式：whole(整个值) 或 token(只提取颜色片段)')
+  .option('--naming <mode>', '变量命名方式：path(文件夹/类名/属性) 或 semantic(按颜色命名)')
+  .option('--categories [names]', `启用的令牌分类，用逗号分隔，可选：${Object.keys(TokenCategories).join(', ')}，不指定时启用全部`)
+  .option('--unit <unit>', '分类取值中长度的输出单位：px(保持原单位) 或 rem')
+  .option('--rem-base <px>', 'px 与 rem 换算的基准字号 (默认: 16)')
+  .option('--scale <scale>', 'spacing、radius 的刻度：步长(px)，或用逗号分隔的可选取值，如 4 或 0,4,8,12,16,24')
+  .option('--snap-to-scale', '将不在刻度上的值对齐到最接近的刻度值（默认只报告）')
+  .option('--tokens <files>', '已有的设计令牌文件(CSS变量文件或JSON)，用逗号分隔（相对目录路径）')
+  .option('--debounce <ms>', '防抖时间（毫秒）', '100')
+  .option('--concurrency <n>', '同时预读解析的文件数 (默认: 8)')))
+  .action((options) => {
+    const { debounce, quiet, json, ...cliOptions } = options;
+    const { cssToVariable } = createFromCli(cliOptions, {
+      directory: './src',
+      preset: 'colors'
+    }, quiet || json);
+    attachReporter(cssToVariable, { quiet, json });
+
+    cssToVariable.watch({ debounce: Number(debounce) })
+      .then((watcher) => {
+        process.on('SIGINT', () => {
+          watcher.dispose().then(() => {
+            if (!quiet && !json) {
+              console.log('👋 已停止监听');
+            }
+            process.exit(0);
+          });
+        });
+      })
+      .catch((error) => {
+        console.error('❌ 发生错误：', error);
+        process.exit(1);
+      });
+  });
+
+withFilterOptions(program
+  .command('check')
+  .description('检查匹配属性中是否仍有字面值，发现时以非零退出码退出')
+  .option('-d, --directory <path>', '要扫描的目录路径 (默认: "./src")')
+  .option('-p, --properties <items>', '要检查的CSS属性列表，用逗号分隔')
+  .option('-c, --config <file>', '配置文件路径 (默认查找当前目录下的 css-to-variable.config.{js,json})')
+  .option('--preset <names>', `使用的预设，用逗号分隔，可选：${Object.keys(Presets).join(', ')} (默认: "colors")`)
+  .option('--pattern <pattern>', '文件匹配模式 (默认: "**/*.{css,scss,less,sass,vue,svelte}")')
+  .option('--value-mode <mode>', '检查方式：whole(整个值) 或 token(只检查颜色片段)')
+  .option('--format <format>', `输出格式：${CHECK_FORMATS.join(', ')}`, 'table')
+  .option('--concurrency <n>', '同时预读解析的文件数 (默认: 8)'))
+  .action((options) => {
+    if (!CHECK_FORMATS.includes(options.format)) {
+      console.error(`❌ 错误：--format 仅支持 ${CHECK_FORMATS.join(', ')}！`);
+      process.exit(1);
+    }
+
+    // 机器可读格式只输出报告内容；check 的 --format 为报告格式，不是导出格式
+    const { cssToVariable } = createFromCli({ ...options, format: undefined }, {
+      directory: './src',
+      preset: 'colors'
+    }, options.format !== 'table');
+    attachReporter(cssToVariable, { quiet: options.format !== 'table', progress: false });
+
+    cssToVariable.check()
+      .then((violations) => {
+        console.log(formatViolations(violations, options.format as CheckFormat));
+        process.exit(violations.length > 0 ? 1 : 0);
+      })
+      .catch((error) => {
+        console.error('❌ 发生错误：', error);
+        process.exit(2);
+      });
+  });
+
+withOutputOptions(withFilterOptions(program
+  .command('report')
+  .description('生成变量使用报告（预览模式提取，不修改任何文件）')
+  .option('-d, --directory <path>', '要扫描的目录路径 (默认: "./src")')
+  .option('-p, --properties <items>', '要统计的CSS属性列表，用逗号分隔')
+  .option('-c, --config <file>', '配置文件路径 (默认查找当前目录下的 css-to-variable.config.{js,json})')
+  .option('--preset <names>', `使用的预设，用逗号分隔，可选：${Object.keys(Presets).join(', ')} (默认: "colors")`)
+  .option('--pattern <pattern>', '文件匹配模式 (默认: "**/*.{css,scss,less,sass,vue,svelte}")')
+  .option('--dedupe [mode]', '按值去重，可选 property(同属性) 或 global(跨属性)')
+  .option('--value-mode <mode>', '属性值提取方式：whole(整个值) 或 token(只提取颜色片段)')
+  .option('--tokens <files>', '已有的设计令牌文件(CSS变量文件或JSON)，用逗号分隔（相对目录路径）')
+  .option('--format <format>', `报告格式：${REPORT_FORMATS.join(', ')}`, 'html')
+  .option('--out <file>', '报告文件路径 (默认: "css-to-variable-report.{html,md,json}")')
+  .option('--tolerance <deltaE>', '颜色视为近似重复的色差阈值(ΔE)', '3')
+  .option('--concurrency <n>', '同时预读解析的文件数 (默认: 8)')))
+  .action((options) => {
+    if (!REPORT_FORMATS.includes(options.format)) {
+      console.error(`❌ 错误：--format 仅支持 ${REPORT_FORMATS.join(', ')}！`);
+      process.exit(1);
+    }
+
+    const { format, out, tolerance, quiet, json, ...cliOptions } = options;
+    const { cssToVariable, config } = createFromCli({ ...cliOptions, dryRun: true }, {
+      directory: './src',
+      preset: 'colors'
+    }, quiet || json);
+    attachReporter(cssToVariable, { quiet, json });
+    const reportPath = path.resolve(out || `css-to-variable-report${REPORT_EXTENSIONS[format as ReportFormat]}`);
+
+    cssToVariable.extract()
+      .then(() => {
+        const report = cssToVariable.getUsageReport({ tolerance: Number(tolerance) });
+        // 文件链接相对报告所在目录
+        const linkBase = path.relative(path.dirname(reportPath), path.resolve(config.directory!)).split(path.sep).join('/');
+        fs.mkdirSync(path.dirname(reportPath), { recursive: true });
+        fs.writeFileSync(reportPath, formatReport(report, format as ReportFormat, { linkBase: linkBase ? `${linkBase}/` : '' }));
+        if (json) {
+          console.log(JSON.stringify({ event: 'report', filePath: reportPath }));
+        } else if (!quiet) {
+          console.log(`📊 生成使用报告: ${path.relative(process.cwd(), reportPath)}`);
+        }
+      })
+      .catch((error) => {
+        console.error('❌ 发生错误：', error);
+        process.exit(1);
+      });
+  });
+
+withOutputOptions(program
+  .command('restore')
+  .description('根据替换记录还原提取前的文件')
+  .requiredOption('-d, --directory <path>', '要还原的目录路径')
+  .option('--manifest <filename>', '替换记录文件名', 'css-to-variable.manifest.json')
+  .option('--dry-run', '仅预览改动，不写入任何文件', false))
   .action((options) => {
     const directory = path.resolve(options.directory);
-    
+
     // 检查目录是否存在
     if (!fs.existsSync(directory)) {
       console.error('❌ 错误：指定的目录不存在！');
@@ -45,13 +565,17 @@ program
 
     const cssToVariable = new CssToVariable({
       directory,
-      properties: ['color', 'background-color','background-image', 'background'],
-      prefix: ''
+      properties: [],
+      manifestFile: options.manifest,
+      dryRun: options.dryRun
     });
+    attachReporter(cssToVariable, { quiet: options.quiet, json: options.json });
 
-    cssToVariable.extract()
+    cssToVariable.restore()
       .then(() => {
-        console.log('✨ CSS变量提取完成！');
+        if (options.dryRun) {
+          printFileDiffs(cssToVariable, options.json);
+        }
       })
       .catch((error) => {
         console.error('❌ 发生错误：', error);
@@ -59,19 +583,17 @@ program
       });
   });
 
-program
-  .command('extract')
-  .description('使用自定义参数执行变量提取')
+withOutputOptions(program
+  .command('inline')
+  .description('将var()变量引用替换为具体值')
   .requiredOption('-d, --directory <path>', '要扫描的目录路径')
-  .requiredOption('-p, --properties <items>', '要提取的CSS属性列表，用逗号分隔')
-  .option('--prefix <string>', '变量名前缀', '')
-  .option('--output <filename>', '输出的变量文件名', 'variables.css')
-  .option('--pattern <pattern>', '文件匹配模式', '**/*.{css,scss}')
-  .option('--assets-output <boolean>', '是否输出图片资源的base64变量', false)
-  .option('--split-by-folder <boolean>', '是否按文件夹拆分变量文件', false)  // 添加新参数
+  .option('--variables <files>', '变量定义文件，用逗号分隔（相对目录路径）', '')
+  .option('-p, --properties <items>', '要处理的CSS属性列表，用逗号分隔（默认处理所有属性）', '')
+  .option('--pattern <pattern>', '文件匹配模式', '**/*.{css,scss,less,sass,vue,svelte}')
+  .option('--dry-run', '仅预览改动，不写入任何文件', false))
   .action((options) => {
     const directory = path.resolve(options.directory);
-    
+
     // 检查目录是否存在
     if (!fs.existsSync(directory)) {
       console.error('❌ 错误：指定的目录不存在！');
@@ -80,17 +602,18 @@ program
 
     const cssToVariable = new CssToVariable({
       directory,
-      properties: options.properties.split(','),
-      prefix: options.prefix,
-      outputFile: options.output,
+      properties: options.properties ? options.properties.split(',') : [],
       pattern: options.pattern,
-      assetsOutput: options.assetsOutput === 'true',  // 将字符串转换为布尔值传递给参数
-      splitByFolder: options.splitByFolder === 'true'  // 添加splitByFolder参数
+      variableFiles: options.variables ? options.variables.split(',') : [],
+      dryRun: options.dryRun
     });
+    attachReporter(cssToVariable, { quiet: options.quiet, json: options.json });
 
-    cssToVariable.extract()
+    cssToVariable.inline()
       .then(() => {
-        console.log('✨ CSS变量提取完成！');
+        if (options.dryRun) {
+          printFileDiffs(cssToVariable, options.json);
+        }
       })
       .catch((error) => {
         console.error('❌ 发生错误：', error);
@@ -0,0 +1,263 @@
+/**
+ * 颜色解析与归一化工具
+ */
+
+import valueParser from 'postcss-value-parser';
+
+export interface RGBA {
+  r: number;
+  g: number;
+  b: number;
+  /** 透明度，取值 0-1 */
+  a: number;
+}
+
+/** 常用的CSS颜色关键字 */
+const NamedColors: Record<string, string> = {
+  black: '#000000',
+  white: '#ffffff',
+  red: '#ff0000',
+  lime: '#00ff00',
+  green: '#008000',
+  blue: '#0000ff',
+  yellow: '#ffff00',
+  cyan: '#00ffff',
+  aqua: '#00ffff',
+  magenta: '#ff00ff',
+  fuchsia: '#ff00ff',
+  silver: '#c0c0c0',
+  gray: '#808080',
+  grey: '#808080',
+  maroon: '#800000',
+  olive: '#808000',
+  purple: '#800080',
+  teal: '#008080',
+  navy: '#000080',
+  orange: '#ffa500'
+};
+
+/** 不作为颜色提取的关键字 */
+const ColorKeywords = ['transparent', 'currentcolor', 'inherit', 'initial', 'unset', 'revert', 'none'];
+
+/** 颜色函数 */
+const ColorFunctions = ['rgb', 'rgba', 'hsl', 'hsla'];
+
+/** 归一化时忽略大小写的常用关键字（字体名、字符串等其余标识符保留大小写） */
+const CaseInsensitiveKeywords = [
+  ...ColorKeywords, 'revert-layer', 'auto', 'normal', 'bold', 'bolder', 'lighter', 'italic', 'oblique',
+  'solid', 'dashed', 'dotted', 'double', 'groove', 'ridge', 'inset', 'outset', 'hidden',
+  'to', 'top', 'right', 'bottom', 'left', 'center', 'repeat', 'no-repeat', 'cover', 'contain',
+  'serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui'
+];
+
+/** 取值中可以包含颜色的简写属性（此外还包括 color 及 *-color 属性） */
+const ColorShorthands = [
+  'background', 'background-image', 'border', 'border-top', 'border-right', 'border-bottom', 'border-left',
+  'outline', 'column-rule', 'text-decoration', 'box-shadow', 'text-shadow', 'fill', 'stroke'
+];
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+/**
+ * 解析rgb()/hsl()中的单个分量，支持百分比
+ */
+function parseChannel(raw: string, max: number): number {
+  if (raw.endsWith('%')) {
+    return clamp((parseFloat(raw) / 100) * max, 0, max);
+  }
+  return clamp(parseFloat(raw), 0, max);
+}
+
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  const hue = ((h % 360) + 360) % 360 / 360;
+  if (s === 0) {
+    return [l * 255, l * 255, l * 255];
+  }
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  const convert = (t: number): number => {
+    if (t < 0) t += 1;
+    if (t > 1) t -= 1;
+    if (t < 1 / 6) return p + (q - p) * 6 * t;
+    if (t < 1 / 2) return q;
+    if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+    return p;
+  };
+  return [convert(hue + 1 / 3) * 255, convert(hue) * 255, convert(hue - 1 / 3) * 255];
+}
+
+/**
+ * 属性的取值是否可以包含颜色，如 color、border-color、background、box-shadow
+ */
+export function isColorProperty(property: string): boolean {
+  return property === 'color' || property.endsWith('-color') || ColorShorthands.includes(property);
+}
+
+/**
+ * 解析颜色值，无法识别时返回 null
+ * 支持 #rgb、#rgba、#rrggbb、#rrggbbaa、rgb()/rgba()、hsl()/hsla() 及常用颜色关键字
+ */
+export function parseColor(value: string): RGBA | null {
+  const input = value.trim().toLowerCase();
+
+  if (NamedColors[input]) {
+    return parseColor(NamedColors[input]);
+  }
+
+  const hexMatch = input.match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/);
+  if (hexMatch) {
+    let hex = hexMatch[1];
+    if (hex.length <= 4) {
+      hex = hex.split('').map(char => char + char).join('');
+    }
+    return {
+      r: parseInt(hex.slice(0, 2), 16),
+      g: parseInt(hex.slice(2, 4), 16),
+      b: parseInt(hex.slice(4, 6), 16),
+      a: hex.length === 8 ? Math.round((parseInt(hex.slice(6, 8), 16) / 255) * 100) / 100 : 1
+    };
+  }
+
+  const funcMatch = input.match(/^(rgba?|hsla?)\(([^)]*)\)$/);
+  if (!funcMatch) {
+    return null;
+  }
+
+  // 兼容逗号分隔和空格分隔（rgb(0 0 0 / 50%)）两种写法
+  const parts = funcMatch[2].split(/[\s,/]+/).filter(Boolean);
+  if (parts.length < 3 || parts.length > 4) {
+    return null;
+  }
+  if (!parts.every(part => /^-?[\d.]+(%|deg)?$/.test(part))) {
+    return null;
+  }
+  const alpha = parts[3] !== undefined ? parseChannel(parts[3], 1) : 1;
+
+  if (funcMatch[1].startsWith('rgb')) {
+    return {
+      r: Math.round(parseChannel(parts[0], 255)),
+      g: Math.round(parseChannel(parts[1], 255)),
+      b: Math.round(parseChannel(parts[2], 255)),
+      a: alpha
+    };
+  }
+
+  const [r, g, b] = hslToRgb(
+    parseFloat(parts[0]),
+    parseChannel(parts[1].endsWith('%') ? parts[1] : `${parts[1]}%`, 1),
+    parseChannel(parts[2].endsWith('%') ? parts[2] : `${parts[2]}%`, 1)
+  );
+  return { r: Math.round(r), g: Math.round(g), b: Math.round(b), a: alpha };
+}
+
+/**
+ * 将颜色转换为小写十六进制，带透明度时输出 #rrggbbaa
+ */
+export function toHex(color: RGBA): string {
+  const hex = (channel: number): string => Math.round(channel).toString(16).padStart(2, '0');
+  const rgb = `#${hex(color.r)}${hex(color.g)}${hex(color.b)}`;
+  return color.a < 1 ? `${rgb}${hex(color.a * 255)}` : rgb;
+}
+
+/**
+ * 转换为 CIELAB 色彩空间（D65）
+ */
+export function toLab(color: RGBA): [number, number, number] {
+  const linear = [color.r, color.g, color.b].map((channel) => {
+    const value = channel / 255;
+    return value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+  });
+  const x = (linear[0] * 0.4124 + linear[1] * 0.3576 + linear[2] * 0.1805) / 0.95047;
+  const y = linear[0] * 0.2126 + linear[1] * 0.7152 + linear[2] * 0.0722;
+  const z = (linear[0] * 0.0193 + linear[1] * 0.1192 + linear[2] * 0.9505) / 1.08883;
+  const f = (t: number): number => t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116;
+  return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))];
+}
+
+/**
+ * 两个颜色的色差 ΔE（CIE76），透明度不同的颜色视为差异较大
+ * 一般认为 ΔE < 2 人眼难以分辨
+ */
+export function deltaE(a: RGBA, b: RGBA): number {
+  const [l1, a1, b1] = toLab(a);
+  const [l2, a2, b2] = toLab(b);
+  const alpha = Math.abs(a.a - b.a) * 100;
+  return Math.sqrt((l1 - l2) ** 2 + (a1 - a2) ** 2 + (b1 - b2) ** 2 + alpha ** 2);
+}
+
+/**
+ * 归一化属性值：颜色统一转为十六进制，其余值压缩空白
+ * 仅颜色、单位、函数名与常用关键字转为小写，引号字符串、字体名与 url() 路径保留原样
+ */
+export function normalizeValue(value: string): string {
+  const color = parseColor(value);
+  if (color) {
+    return toHex(color);
+  }
+  const parsed = valueParser(value.trim());
+  parsed.walk((node) => {
+    if (node.type === 'space') {
+      node.value = ' ';
+    } else if (node.type === 'div') {
+      node.before = node.value === ',' || !node.before ? '' : ' ';
+      node.after = node.value === ',' || !node.after ? '' : ' ';
+    } else if (node.type === 'function') {
+      node.value = node.value.toLowerCase();
+      node.before = '';
+      node.after = '';
+      if (node.value === 'url') {
+        return false;
+      }
+    } else if (node.type === 'word') {
+      const lower = node.value.toLowerCase();
+      if (valueParser.unit(node.value) || CaseInsensitiveKeywords.includes(lower) || parseColor(node.value)) {
+        node.value = lower;
+      }
+    }
+  });
+  return valueParser.stringify(parsed.nodes);
+}
+
+/**
+ * 替换属性值中的颜色片段（简写属性、渐变、阴影中的颜色），其余部分保持不变
+ * transparent、currentColor、inherit、none 等关键字不会被替换
+ */
+export function replaceColorTokens(
+  value: string,
+  replace: (token: string) => string
+): { value: string; changed: boolean } {
+  let changed = false;
+  const parsed = valueParser(value);
+
+  parsed.walk((node) => {
+    // var()、url() 中的内容不处理
+    if (node.type === 'function' && ['var', 'url'].includes(node.value.toLowerCase())) {
+      return false;
+    }
+
+    let token: string | undefined;
+    if (node.type === 'word' && !ColorKeywords.includes(node.value.toLowerCase()) && parseColor(node.value)) {
+      token = node.value;
+    } else if (node.type === 'function' && ColorFunctions.includes(node.value.toLowerCase())) {
+      const stringified = valueParser.stringify(node);
+      // rgba($color, .5) 等SCSS表达式无法放入CSS变量
+      if (!stringified.includes('$') && !stringified.includes('#{')) {
+        token = stringified;
+      }
+    }
+    if (token === undefined) {
+      return;
+    }
+
+    const replaced = node as unknown as valueParser.WordNode;
+    replaced.type = 'word';
+    replaced.value = replace(token);
+    changed = true;
+    return false;
+  });
+
+  return {
+    value: changed ? valueParser.stringify(parsed.nodes) : value,
+    changed
+  };
+}
@@ -0,0 +1,31 @@
+type Settled<T> = { ok: true; value: T } | { ok: false; error: unknown };
+
+/**
+ * 并发预读、按顺序处理：最多同时执行 concurrency 个 load，结果按 items 的顺序依次交给 consume
+ * 处理顺序与 items 一致，保证变量名等结果与并发数无关
+ */
+export async function processInOrder<T, R>(
+  items: T[],
+  concurrency: number,
+  load: (item: T) => Promise<R>,
+  consume: (result: R, item: T, index: number) => Promise<void>
+): Promise<void> {
+  const limit = Math.max(1, Math.floor(concurrency) || 1);
+  // 预读结果先包装为 Settled，避免尚未轮到处理的失败任务触发 unhandledRejection
+  const pending: Array<Promise<Settled<R>>> = [];
+  let next = 0;
+
+  for (let index = 0; index < items.length; index++) {
+    while (next < items.length && pending.length < limit) {
+      pending.push(load(items[next++]).then(
+        value => ({ ok: true as const, value }),
+        error => ({ ok: false as const, error })
+      ));
+    }
+    const result = await pending.shift()!;
+    if (!result.ok) {
+      throw result.error;
+    }
+    await consume(result.value, items[index], index);
+  }
+}
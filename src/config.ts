@@ -0,0 +1,260 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createRequire } from 'module';
+import { Presets } from './constant';
+import { TokenCategories } from './categories';
+import type { CssToVariableOptions, DirectoryOverride } from './index';
+
+/**
+ * 配置文件内容
+ */
+export interface CssToVariableConfig extends Partial<Omit<CssToVariableOptions, 'overrides'>> {
+  /** 使用的预设，多个预设的属性会合并 */
+  preset?: string | string[];
+  /** 按目录覆盖配置，覆盖配置中同样可以使用 preset */
+  overrides?: Record<string, DirectoryOverride & { preset?: string | string[] }>;
+}
+
+/** 自动查找的配置文件名，按顺序查找 */
+export const CONFIG_FILES = ['css-to-variable.config.js', 'css-to-variable.config.cjs', 'css-to-variable.config.json'];
+
+type Validator = (value: unknown) => string | undefined;
+
+const isString: Validator = value => typeof value === 'string' ? undefined : '应为字符串';
+const isBoolean: Validator = value => typeof value === 'boolean' ? undefined : '应为布尔值';
+const isNonNegativeNumber: Validator = value =>
+  typeof value === 'number' && value >= 0 ? undefined : '应为非负数';
+const isPositiveInteger: Validator = value =>
+  Number.isInteger(value) && (value as number) > 0 ? undefined : '应为正整数';
+const isFunction: Validator = value => typeof value === 'function' ? undefined : '应为函数';
+const isStringArray: Validator = value =>
+  Array.isArray(value) && value.every(item => typeof item === 'string') ? undefined : '应为字符串数组';
+const isPatternArray: Validator = (value) => {
+  if (!Array.isArray(value) || !value.every(item => typeof item === 'string' || item instanceof RegExp)) {
+    return '应为字符串或正则表达式数组';
+  }
+  for (const item of value) {
+    try {
+      new RegExp(item);
+    } catch {
+      return `无效的正则表达式 ${JSON.stringify(item)}`;
+    }
+  }
+  return undefined;
+};
+const isObject: Validator = value =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? undefined : '应为对象';
+const isOneOf = (...choices: unknown[]): Validator => value =>
+  choices.includes(value) ? undefined : `应为 ${choices.map(choice => JSON.stringify(choice)).join(' | ')} 之一`;
+const isCategories: Validator = (value) => {
+  if (typeof value === 'boolean') {
+    return undefined;
+  }
+  if (!Array.isArray(value)) {
+    return '应为布尔值或令牌分类数组';
+  }
+  const unknown = value.filter(category => typeof category !== 'string' || !Object.keys(TokenCategories).includes(category));
+  return unknown.length > 0
+    ? `未知令牌分类 ${unknown.map(category => JSON.stringify(category)).join(', ')}，可选：${Object.keys(TokenCategories).join(', ')}`
+    : undefined;
+};
+const isScale: Validator = value =>
+  typeof value === 'number' && value > 0 || Array.isArray(value) && value.every(item => typeof item === 'number' && item >= 0)
+    ? undefined
+    : '应为正数（步长）或非负数数组（可选取值）';
+const isPreset: Validator = (value) => {
+  const presets = Array.isArray(value) ? value : [value];
+  const unknown = presets.filter(preset => typeof preset !== 'string' || !Presets[preset]);
+  return unknown.length > 0
+    ? `未知预设 ${unknown.map(preset => JSON.stringify(preset)).join(', ')}，可选：${Object.keys(Presets).join(', ')}`
+    : undefined;
+};
+
+/** 目录覆盖配置允许的字段 */
+const OverrideSchema: Record<string, Validator> = {
+  preset: isPreset,
+  properties: isStringArray,
+  prefix: isString,
+  valueMode: isOneOf('whole', 'token')
+};
+
+/** 配置文件允许的字段 */
+const ConfigSchema: Record<string, Validator> = {
+  directory: isString,
+  properties: isStringArray,
+  preset: isPreset,
+  prefix: isString,
+  outputFile: isString,
+  pattern: isString,
+  ignore: isStringArray,
+  includeSelectors: isPatternArray,
+  excludeSelectors: isPatternArray,
+  allowValues: isPatternArray,
+  denyValues: isPatternArray,
+  contexts: isObject,
+  naming: isOneOf('path', 'semantic'),
+  categories: isCategories,
+  unit: isOneOf('px', 'rem'),
+  remBase: value => typeof value === 'number' && value > 0 ? undefined : '应为正数',
+  scale: isScale,
+  snapToScale: isBoolean,
+  palette: value => typeof value === 'string' ? undefined : isObject(value),
+  nameFormatter: isFunction,
+  exportMap: isBoolean,
+  assetsOutput: isBoolean,
+  assetInlineLimit: isNonNegativeNumber,
+  remoteAssets: isBoolean,
+  assetMixins: isStringArray,
+  splitByFolder: isBoolean,
+  dryRun: isBoolean,
+  dedupe: isOneOf(true, false, 'property', 'global'),
+  manifestFile: isString,
+  variableFiles: isStringArray,
+  themes: isObject,
+  scssVariables: isBoolean,
+  valueMode: isOneOf('whole', 'token'),
+  tokenFiles: isStringArray,
+  tokenTolerance: isNonNegativeNumber,
+  concurrency: isPositiveInteger,
+  failFast: isBoolean,
+  injectImport: value => typeof value === 'boolean' || typeof value === 'string' ? undefined : '应为布尔值或入口样式文件路径',
+  importPath: isString,
+  scope: isOneOf('global', 'folder', 'file'),
+  scopeSelector: isOneOf('root', 'where'),
+  merge: isBoolean,
+  formats: isStringArray,
+  formatters: value => Array.isArray(value) ? undefined : '应为数组',
+  syntaxAdapters: value => Array.isArray(value) ? undefined : '应为数组',
+  overrides: (value) => {
+    const error = isObject(value);
+    if (error) {
+      return error;
+    }
+    const errors: string[] = [];
+    for (const [directory, override] of Object.entries(value as object)) {
+      errors.push(...validateFields(override, OverrideSchema, `overrides["${directory}"].`));
+    }
+    return errors.length > 0 ? errors.join('\n  - ') : undefined;
+  }
+};
+
+function validateFields(value: unknown, schema: Record<string, Validator>, keyPrefix = ''): string[] {
+  const objectError = isObject(value);
+  if (objectError) {
+    return [`${keyPrefix || '配置'} ${objectError}`];
+  }
+  const errors: string[] = [];
+  for (const [key, fieldValue] of Object.entries(value as object)) {
+    const validator = schema[key];
+    if (!validator) {
+      errors.push(`${keyPrefix}${key}: 未知配置项`);
+      continue;
+    }
+    if (fieldValue === undefined) {
+      continue;
+    }
+    const error = validator(fieldValue);
+    if (error) {
+      // 嵌套字段（如 overrides）的错误信息已包含完整路径
+      errors.push(error.startsWith(`${keyPrefix}${key}`) ? error : `${keyPrefix}${key}: ${error}`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * 校验配置，存在错误时抛出包含所有错误信息的异常
+ */
+export function validateConfig(config: unknown, source = '配置'): CssToVariableConfig {
+  const errors = validateFields(config, ConfigSchema);
+  if (errors.length > 0) {
+    throw new Error(`${source} 校验失败：\n  - ${errors.join('\n  - ')}`);
+  }
+  return config as CssToVariableConfig;
+}
+
+/**
+ * 从指定目录查找配置文件
+ */
+export function findConfigFile(cwd: string): string | undefined {
+  return CONFIG_FILES.map(file => path.join(cwd, file)).find(file => fs.existsSync(file));
+}
+
+/**
+ * 加载并校验配置文件，directory 按配置文件所在目录解析
+ */
+export function loadConfig(configPath: string): CssToVariableConfig {
+  const filePath = path.resolve(configPath);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`配置文件不存在: ${configPath}`);
+  }
+
+  let config: unknown;
+  try {
+    if (path.extname(filePath) === '.json') {
+      config = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } else {
+      const loaded: unknown = createRequire(__filename)(filePath);
+      // TypeScript/Babel 编译的 ES 模块使用 default 导出
+      config = typeof loaded === 'object' && loaded !== null && '__esModule' in loaded && 'default' in loaded
+        ? loaded.default
+        : loaded;
+    }
+  } catch (error) {
+    throw new Error(`配置文件 ${path.basename(filePath)} 解析失败：${(error as Error).message}`);
+  }
+
+  const validated = validateConfig(config, `配置文件 ${path.basename(filePath)}`);
+  if (validated.directory) {
+    validated.directory = path.resolve(path.dirname(filePath), validated.directory);
+  }
+  return validated;
+}
+
+/**
+ * 展开预设中的属性，显式配置的 properties 追加在预设之后
+ */
+function expandPreset(preset: string | string[] | undefined, properties: string[] | undefined): string[] | undefined {
+  if (!preset) {
+    return properties;
+  }
+  const presets = Array.isArray(preset) ? preset : [preset];
+  const expanded = presets.flatMap(name => Presets[name].properties);
+  return Array.from(new Set([...expanded, ...(properties || [])]));
+}
+
+/**
+ * 合并多层配置（后者优先），展开预设并返回 CssToVariable 的选项
+ * undefined 的字段不会覆盖前面的配置，便于命令行只覆盖显式传入的参数
+ */
+export function resolveConfig(...configs: CssToVariableConfig[]): Partial<CssToVariableOptions> {
+  const merged: CssToVariableConfig = {};
+  for (const config of configs) {
+    for (const [key, value] of Object.entries(config)) {
+      if (value === undefined) {
+        continue;
+      }
+      // 后层配置只指定 preset 时替换前层的 properties
+      if (key === 'preset' && config.properties === undefined) {
+        delete merged.properties;
+      }
+      if (key === 'properties' && config.preset === undefined) {
+        delete merged.preset;
+      }
+      Object.assign(merged, { [key]: value });
+    }
+  }
+
+  const { preset, overrides, ...options } = merged;
+  const resolved: Partial<CssToVariableOptions> = {
+    ...options,
+    properties: expandPreset(preset, options.properties)
+  };
+  if (overrides) {
+    resolved.overrides = Object.fromEntries(Object.entries(overrides).map(([directory, override]) => {
+      const { preset: overridePreset, ...rest } = override;
+      return [directory, { ...rest, properties: expandPreset(overridePreset, rest.properties) }];
+    }));
+  }
+  return resolved;
+}
@@ -4,4 +4,23 @@ const NameMap = {
   'background': 'bg',
   'color': 'c'
 }
-export default NameMap
\ No newline at end of file
+
+/**
+ * 内置预设：常用的属性分组
+ */
+export const Presets: Record<string, { properties: string[] }> = {
+  colors: {
+    properties: ['color', 'background-color', 'background-image', 'background']
+  },
+  borders: {
+    properties: ['border', 'border-color', 'border-top', 'border-right', 'border-bottom', 'border-left', 'outline', 'outline-color']
+  },
+  spacing: {
+    properties: ['margin', 'margin-top', 'margin-right', 'margin-bottom', 'margin-left', 'padding', 'padding-top', 'padding-right', 'padding-bottom', 'padding-left', 'gap', 'row-gap', 'column-gap']
+  },
+  typography: {
+    properties: ['font-size', 'font-weight', 'font-family', 'line-height', 'letter-spacing']
+  }
+}
+
+export default NameMap
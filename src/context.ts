@@ -0,0 +1,188 @@
+import postcss from 'postcss';
+
+export type ContextAction = 'extract' | 'skip';
+
+/**
+ * 按声明所处的上下文决定是否提取及如何命名
+ */
+export interface ContextRules {
+  /** @keyframes 中的声明，默认 skip（动画帧需要具体值，且通常不属于设计令牌） */
+  keyframes?: ContextAction;
+  /** :root / html 中的声明（已是全局定义），默认 skip */
+  root?: ContextAction;
+  /** @font-face 中的声明，默认 skip */
+  fontFace?: ContextAction;
+  /** 值为颜色的自定义属性定义（--x: #fff），默认 skip；alias 时若提取的属性包含颜色属性，值提取为变量，定义改写为对该变量的引用 */
+  customProperties?: 'alias' | 'skip';
+  /** 变量名追加媒体查询后缀，如 -md、-dark，默认 true */
+  mediaSuffix?: boolean;
+  /** 变量名追加状态后缀，如 -hover、-disabled，默认 true */
+  stateSuffix?: boolean;
+  /** 断点名称 -> 宽度(px)，用于生成媒体查询后缀，默认与 Tailwind 一致 */
+  breakpoints?: Record<string, number>;
+}
+
+/** 声明所处的上下文 */
+export interface DeclarationContext {
+  keyframes: boolean;
+  root: boolean;
+  fontFace: boolean;
+  /** 外层 @media / @supports / @container 的条件，由外向内 */
+  media: string[];
+  /** 选择器中的状态伪类，如 hover、focus */
+  states: string[];
+}
+
+export const DefaultBreakpoints: Record<string, number> = {
+  sm: 640,
+  md: 768,
+  lg: 1024,
+  xl: 1280,
+  '2xl': 1536
+};
+
+/** 作为名称后缀的状态伪类（及 ::placeholder） */
+const STATE_PSEUDOS = ['hover', 'focus-visible', 'focus-within', 'focus', 'active', 'visited', 'disabled', 'checked', 'invalid', 'placeholder'];
+
+const ROOT_SELECTOR = /^(:root|html)(?![\w-])/;
+
+/**
+ * 补齐默认规则
+ */
+export function resolveContextRules(rules: ContextRules = {}): Required<ContextRules> {
+  return {
+    keyframes: rules.keyframes || 'skip',
+    root: rules.root || 'skip',
+    fontFace: rules.fontFace || 'skip',
+    customProperties: rules.customProperties || 'skip',
+    mediaSuffix: rules.mediaSuffix ?? true,
+    stateSuffix: rules.stateSuffix ?? true,
+    breakpoints: rules.breakpoints || DefaultBreakpoints
+  };
+}
+
+/**
+ * 获取节点所处的上下文
+ */
+export function getDeclarationContext(node: postcss.Node): DeclarationContext {
+  const context: DeclarationContext = { keyframes: false, root: false, fontFace: false, media: [], states: [] };
+  for (let parent = node.parent; parent && parent.type !== 'root'; parent = parent.parent) {
+    if (parent.type === 'atrule') {
+      const atRule = parent as postcss.AtRule;
+      const name = atRule.name.toLowerCase();
+      if (name.endsWith('keyframes')) {
+        context.keyframes = true;
+      } else if (name === 'font-face') {
+        context.fontFace = true;
+      } else if (name === 'media' || name === 'supports' || name === 'container') {
+        context.media.unshift(atRule.params);
+      }
+    } else if (parent.type === 'rule') {
+      const selectors = (parent as postcss.Rule).selectors;
+      if (selectors.every(selector => ROOT_SELECTOR.test(selector.trim()))) {
+        context.root = true;
+      }
+      for (const state of STATE_PSEUDOS) {
+        if (new RegExp(`::?${state}(?![\\w-])`).test(selectors[0]) && !context.states.includes(state)) {
+          context.states.unshift(state);
+        }
+      }
+    }
+  }
+  return context;
+}
+
+/**
+ * 上下文是否按规则跳过
+ */
+export function isSkippedContext(context: DeclarationContext, rules: Required<ContextRules>): boolean {
+  return context.keyframes && rules.keyframes === 'skip'
+    || context.root && rules.root === 'skip'
+    || context.fontFace && rules.fontFace === 'skip';
+}
+
+const sanitize = (value: string): string => value.toLowerCase().replace(/[^a-z0-9-]+/g, '-').replace(/^-+|-+$/g, '');
+
+/**
+ * 媒体查询后缀：(min-width: 768px) -> md，(max-width: 767px) -> max-md，
+ * (prefers-color-scheme: dark) -> dark，print -> print，无法识别的宽度保留数值，如 min-900
+ */
+export function mediaSuffix(params: string, breakpoints: Record<string, number>): string {
+  const findBreakpoint = (width: number): string | undefined =>
+    Object.keys(breakpoints).find(name => breakpoints[name] === width);
+  const parts: string[] = [];
+
+  const features = params.match(/\(([^()]+)\)/g) || [];
+  for (const feature of features) {
+    const [name, value = ''] = feature.slice(1, -1).split(':').map(part => part.trim().toLowerCase());
+    const width = parseFloat(value);
+    if (/^min-width$/.test(name) && !isNaN(width)) {
+      parts.push(findBreakpoint(width) || `min-${width}`);
+    } else if (/^max-width$/.test(name) && !isNaN(width)) {
+      // max-width: 767px 对应 md 断点之下
+      const breakpoint = findBreakpoint(width) || findBreakpoint(width + 1) || findBreakpoint(width + 0.02);
+      parts.push(breakpoint ? `max-${breakpoint}` : `max-${width}`);
+    } else if (value) {
+      parts.push(sanitize(value));
+    } else {
+      parts.push(sanitize(name));
+    }
+  }
+
+  // 媒体类型，如 print；screen、all 及逻辑运算符不参与命名
+  const mediaTypes = params.replace(/\([^()]*\)/g, ' ').split(/[\s,]+/)
+    .map(word => word.toLowerCase())
+    .filter(word => word && !['screen', 'all', 'and', 'or', 'not', 'only'].includes(word));
+  return [...mediaTypes, ...parts].map(sanitize).filter(Boolean).join('-');
+}
+
+/**
+ * 上下文名称后缀，如 -hover、-md、-hover-dark
+ */
+export function contextSuffix(context: DeclarationContext, rules: Required<ContextRules>): string {
+  const parts = [
+    ...(rules.stateSuffix ? context.states : []),
+    ...(rules.mediaSuffix ? context.media.map(params => mediaSuffix(params, rules.breakpoints)) : [])
+  ].filter(Boolean);
+  return parts.length > 0 ? `-${parts.join('-')}` : '';
+}
+
+/**
+ * 从单个选择器中取名称：类名优先，其次ID、元素名；:global()/:local() 等包裹会被展开
+ */
+function nameFromSelector(selector: string): string | undefined {
+  const unwrapped = selector.replace(/:(global|local|is|where)\(([^()]*)\)/g, ' $2 ');
+  const className = unwrapped.match(/\.(-?[_a-zA-Z][\w-]*)/);
+  if (className) {
+    return className[1];
+  }
+  const id = unwrapped.match(/#(-?[_a-zA-Z][\w-]*)/);
+  if (id) {
+    return id[1];
+  }
+  const element = unwrapped.match(/(?:^|[\s>+~])([a-zA-Z][\w-]*)/);
+  return element && !ROOT_SELECTOR.test(element[1]) ? element[1] : undefined;
+}
+
+/**
+ * 获取节点所在规则的名称，嵌套规则中的 &-suffix（BEM）会拼接到外层名称后
+ */
+export function getSelectorName(node: postcss.Node): string {
+  let suffix = '';
+  for (let parent = node.parent; parent && parent.type !== 'root'; parent = parent.parent) {
+    if (parent.type !== 'rule') {
+      continue;
+    }
+    const selector = (parent as postcss.Rule).selectors[0].trim();
+    const bem = selector.match(/^&((?:-|__)[\w-]+)/);
+    if (bem) {
+      suffix = bem[1] + suffix;
+      continue;
+    }
+    const name = nameFromSelector(selector);
+    if (name) {
+      return name + suffix;
+    }
+  }
+  return suffix.replace(/^[-_]+/, '');
+}
@@ -0,0 +1,98 @@
+import postcss from 'postcss';
+
+/** 字符串按正则表达式解析 */
+export type Pattern = string | RegExp;
+
+/** 忽略注释：与前一条声明同行时忽略该声明，否则忽略所在的规则块（位于顶层时忽略整个文件/样式块） */
+export const IGNORE_COMMENT = 'css-to-variable-ignore';
+
+/** 忽略下一行的声明 */
+export const IGNORE_NEXT_LINE_COMMENT = 'css-to-variable-ignore-next-line';
+
+const toRegExp = (pattern: Pattern): RegExp => typeof pattern === 'string' ? new RegExp(pattern) : pattern;
+
+/**
+ * 是否匹配任一模式
+ */
+export function matchesAny(patterns: Pattern[], value: string): boolean {
+  return patterns.some(pattern => toRegExp(pattern).test(value));
+}
+
+/**
+ * 获取节点所在的选择器，由内向外，嵌套规则（SCSS/LESS）包含所有外层选择器
+ */
+export function getSelectors(node: postcss.Node): string[] {
+  const selectors: string[] = [];
+  for (let parent = node.parent; parent && parent.type !== 'root'; parent = parent.parent) {
+    if (parent.type === 'rule') {
+      selectors.push((parent as postcss.Rule).selector);
+    }
+  }
+  return selectors;
+}
+
+/**
+ * 选择器是否通过 include/exclude 过滤：任一层选择器命中 exclude 时排除；
+ * include 非空时，需要有一层选择器命中 include
+ */
+export function isSelectorAllowed(node: postcss.Node, include: Pattern[], exclude: Pattern[]): boolean {
+  const selectors = getSelectors(node);
+  if (selectors.some(selector => matchesAny(exclude, selector))) {
+    return false;
+  }
+  return include.length === 0 || selectors.some(selector => matchesAny(include, selector));
+}
+
+/**
+ * 值是否通过 allow/deny 过滤：命中 deny 时排除；allow 非空时需要命中 allow
+ */
+export function isValueAllowed(value: string, allow: Pattern[], deny: Pattern[]): boolean {
+  return !matchesAny(deny, value) && (allow.length === 0 || matchesAny(allow, value));
+}
+
+/**
+ * 收集被忽略注释标记的节点（声明及 @include），返回的集合包含被忽略的容器本身
+ */
+export function collectIgnoredNodes(root: postcss.Root): Set<postcss.Node> {
+  const ignored = new Set<postcss.Node>();
+  const ignoredLines = new Set<number>();
+
+  root.walkComments((comment) => {
+    const text = comment.text.trim();
+    if (text === IGNORE_NEXT_LINE_COMMENT) {
+      ignoredLines.add((comment.source?.end?.line || 0) + 1);
+      return;
+    }
+    if (text !== IGNORE_COMMENT) {
+      return;
+    }
+    const previous = comment.prev();
+    if (previous && previous.source?.end?.line === comment.source?.start?.line) {
+      ignored.add(previous);
+    } else if (comment.parent) {
+      ignored.add(comment.parent);
+    }
+  });
+
+  if (ignored.size === 0 && ignoredLines.size === 0) {
+    return ignored;
+  }
+  root.walk((node) => {
+    if ((node.type === 'decl' || node.type === 'atrule') && ignoredLines.has(node.source?.start?.line || 0)) {
+      ignored.add(node);
+    }
+  });
+  return ignored;
+}
+
+/**
+ * 节点本身或任一祖先是否被忽略
+ */
+export function isIgnored(node: postcss.Node, ignored: Set<postcss.Node>): boolean {
+  for (let current: postcss.Node | undefined = node; current; current = current.parent as postcss.Node | undefined) {
+    if (ignored.has(current)) {
+      return true;
+    }
+  }
+  return false;
+}
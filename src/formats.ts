@@ -0,0 +1,132 @@
+import { parseColor } from './color';
+
+/**
+ * 导出的变量
+ */
+export interface ExportedVariable {
+  /** CSS变量名，如 --primary-c */
+  name: string;
+  value: string;
+  /** 来源属性 */
+  property: string;
+}
+
+/**
+ * 导出格式：将提取出的变量输出为其他工具可直接使用的文件
+ */
+export interface ExportFormatter {
+  /** 格式名，通过 formats 选项选择 */
+  name: string;
+  /** 根据变量文件名(outputFile)生成导出文件名 */
+  fileName(outputFile: string): string;
+  /** 生成文件内容 */
+  render(variables: ExportedVariable[]): string;
+}
+
+/** 生成文件的头部说明 */
+const HEADER = '由 css-to-variable 生成，请勿手动修改';
+
+const baseName = (outputFile: string): string => outputFile.replace(/\.[^./\\]+$/, '');
+const stripDashes = (name: string): string => name.replace(/^--/, '');
+
+/**
+ * 按值推断 DTCG 令牌类型，无法推断时不输出 $type
+ */
+function inferTokenType(value: string): string | undefined {
+  if (parseColor(value)) {
+    return 'color';
+  }
+  if (/^-?[\d.]+(px|rem|em)$/.test(value.trim())) {
+    return 'dimension';
+  }
+  return undefined;
+}
+
+/**
+ * W3C Design Tokens (DTCG) JSON
+ */
+const dtcgFormatter: ExportFormatter = {
+  name: 'dtcg',
+  fileName: outputFile => `${baseName(outputFile)}.tokens.json`,
+  render(variables) {
+    const tokens: Record<string, unknown> = { $description: HEADER };
+    for (const variable of variables) {
+      const type = inferTokenType(variable.value);
+      tokens[stripDashes(variable.name)] = type ? { $type: type, $value: variable.value } : { $value: variable.value };
+    }
+    return JSON.stringify(tokens, null, 2) + '\n';
+  }
+};
+
+/**
+ * SCSS：$tokens 映射（原始值）以及指向CSS变量的 $变量 别名
+ */
+const scssFormatter: ExportFormatter = {
+  name: 'scss',
+  fileName: outputFile => `${baseName(outputFile)}.scss`,
+  render(variables) {
+    return [
+      `// ${HEADER}`,
+      '',
+      ...variables.map(variable => `$${stripDashes(variable.name)}: var(${variable.name});`),
+      '',
+      '$tokens: (',
+      // 含逗号的值（阴影、渐变等）加括号，避免被拆分为映射项
+      variables.map(variable => `  '${stripDashes(variable.name)}': ${variable.value.includes(',') ? `(${variable.value})` : variable.value}`).join(',\n'),
+      ');',
+      ''
+    ].join('\n');
+  }
+};
+
+/**
+ * TypeScript 模块：导出变量名常量及类型
+ */
+const tsFormatter: ExportFormatter = {
+  name: 'ts',
+  fileName: outputFile => `${baseName(outputFile)}.ts`,
+  render(variables) {
+    return [
+      `/** ${HEADER} */`,
+      'export const variables = {',
+      variables.map(variable => `  '${variable.name}': ${JSON.stringify(variable.value)}`).join(',\n'),
+      '} as const;',
+      '',
+      'export type VariableName = keyof typeof variables;',
+      '',
+      'export const cssVar = (name: VariableName): string => `var(${name})`;',
+      ''
+    ].join('\n');
+  }
+};
+
+/**
+ * Tailwind 配置片段：颜色变量输出到 theme.extend.colors
+ */
+const tailwindFormatter: ExportFormatter = {
+  name: 'tailwind',
+  fileName: outputFile => `${baseName(outputFile)}.tailwind.js`,
+  render(variables) {
+    const colors = Object.fromEntries(variables
+      .filter(variable => parseColor(variable.value))
+      .map(variable => [stripDashes(variable.name), `var(${variable.name})`]));
+    return [
+      `/** ${HEADER} */`,
+      `module.exports = ${JSON.stringify({ theme: { extend: { colors } } }, null, 2)};`,
+      ''
+    ].join('\n');
+  }
+};
+
+/**
+ * 内置的导出格式，css 格式即变量文件本身，由 CssToVariable 生成
+ */
+export const defaultFormatters: ExportFormatter[] = [
+  dtcgFormatter,
+  scssFormatter,
+  tsFormatter,
+  tailwindFormatter
+];
+
+/** 内置格式名 */
+export const EXPORT_FORMATS = ['css', ...defaultFormatters.map(formatter => formatter.name)];
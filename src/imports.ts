@@ -0,0 +1,124 @@
+import * as path from 'path';
+import postcss from 'postcss';
+import scss from 'postcss-scss';
+import sugarss from 'sugarss';
+
+/**
+ * 注入到源文件中的变量文件引入语句，记录在替换记录中供 restore 移除
+ */
+export interface InjectedImport {
+  /** 相对 directory 的文件路径 */
+  filePath: string;
+  /** import 或 use */
+  name: string;
+  params: string;
+}
+
+/** 位于文件开头、引入语句需要排在其后的 at-rule */
+const LEADING_AT_RULES = ['charset', 'import', 'use', 'forward'];
+
+/** Sass 要求 @use 之前只能有 @charset、@forward 及其他 @use */
+const BEFORE_USE_AT_RULES = ['charset', 'use', 'forward'];
+
+/**
+ * SCSS/Sass 使用 @use，其余使用 @import
+ */
+export function getImportRuleName(syntax?: postcss.Syntax): 'use' | 'import' {
+  return syntax === scss || syntax === sugarss ? 'use' : 'import';
+}
+
+/**
+ * 引入路径：指定别名（如 ~@/styles/variables.css）时直接使用，否则为相对 fromFile 的路径
+ */
+export function getImportSpecifier(fromFile: string, targetFile: string, alias?: string): string {
+  if (alias) {
+    return alias;
+  }
+  const relative = path.relative(path.dirname(fromFile), targetFile).split(path.sep).join('/');
+  return relative.startsWith('.') ? relative : `./${relative}`;
+}
+
+/**
+ * 生成引入语句的参数，@use 加载CSS文件时不能带 .css 扩展名
+ */
+export function formatImportParams(name: string, specifier: string): string {
+  return name === 'use' ? `"${specifier.replace(/\.css$/, '')}"` : `url("${specifier}")`;
+}
+
+const stripExtension = (value: string): string => value.replace(/\.css$/, '');
+
+/**
+ * 已有的引入语句是否指向同一个变量文件：与引入路径一致，或相对路径解析后为同一文件
+ */
+function isSameImport(params: string, fromFile: string, targetFile: string, specifier: string): boolean {
+  const target = params.match(/^\s*(?:url\(\s*)?(['"]?)([^'"()\s]+)\1/)?.[2];
+  if (!target) {
+    return false;
+  }
+  if (stripExtension(target) === stripExtension(specifier)) {
+    return true;
+  }
+  return target.startsWith('.')
+    && stripExtension(path.resolve(path.dirname(fromFile), target)) === stripExtension(targetFile);
+}
+
+/**
+ * 在样式开头（@charset、已有的 @import/@use/@forward 之后）插入引入语句，已引入时返回 null
+ * @use 插入在第一个 @import 之前
+ */
+export function injectImport(root: postcss.Root, fromFile: string, targetFile: string, options: { name: string; specifier: string }): string | null {
+  let insertIndex = 0;
+  let placed = false;
+  for (const [index, node] of root.nodes.entries()) {
+    if (node.type === 'comment') {
+      continue;
+    }
+    if (node.type !== 'atrule' || !LEADING_AT_RULES.includes(node.name)) {
+      break;
+    }
+    if (['import', 'use', 'forward'].includes(node.name) && isSameImport(node.params, fromFile, targetFile, options.specifier)) {
+      return null;
+    }
+    // 继续检查后面的引入语句是否已引入同一文件，插入位置不再后移
+    placed = placed || options.name === 'use' && !BEFORE_USE_AT_RULES.includes(node.name);
+    if (!placed) {
+      insertIndex = index + 1;
+    }
+  }
+
+  const params = formatImportParams(options.name, options.specifier);
+  const atRule = postcss.atRule({ name: options.name, params });
+  const first = root.first;
+  // Root 插入节点时会改写前导空白，插入后再设置
+  if (!first) {
+    root.append(atRule);
+    atRule.raws.before = '';
+    root.raws.semicolon = true;
+  } else if (insertIndex === 0) {
+    // 插入到最前面时沿用原首个节点的前导空白，原首个节点另起一行
+    const before = first.raws.before || '';
+    root.prepend(atRule);
+    atRule.raws.before = before;
+    first.raws.before = '\n';
+  } else {
+    root.insertAfter(root.nodes[insertIndex - 1], atRule);
+    atRule.raws.before = '\n';
+  }
+  return params;
+}
+
+/**
+ * 移除注入的引入语句，恢复原首个节点的前导空白，返回是否找到
+ */
+export function removeImport(root: postcss.Root, name: string, params: string): boolean {
+  const atRule = root.nodes.find((node): node is postcss.AtRule => node.type === 'atrule' && node.name === name && node.params === params);
+  if (!atRule) {
+    return false;
+  }
+  const next = atRule.next();
+  if (atRule === root.first && next) {
+    next.raws.before = atRule.raws.before;
+  }
+  atRule.remove();
+  return true;
+}
@@ -1,12 +1,29 @@
 import { glob } from 'glob';
+import { EventEmitter } from 'events';
 import * as fs from 'fs';
 import * as path from 'path';
 import postcss from 'postcss';
-import scss from 'postcss-scss';
-import imageToBase64 from 'image-to-base64';
+import sugarss from 'sugarss';
+import { createTwoFilesPatch } from 'diff';
 import NameMap from './constant';
+import { isColorProperty, normalizeValue, parseColor, replaceColorTokens, toHex } from './color';
+import { collectCustomProperties, CustomPropertyMap, resolveVarReferences } from './inline';
+import { mergeThemeBlocks, renderThemeBlocks, resolveThemeValues, ThemeDefinitions } from './theme';
+import { collectScssVariables, replaceScssReferences, resolveScssVariables, ScssVariableMap } from './scss';
+import { defaultAdapters, findAdapter, isInSassMixin, isPreprocessorValue, PLACEHOLDER_PATTERN, replaceRegions, StyleRegion, SyntaxAdapter } from './syntax';
+import { defaultFormatters, ExportedVariable, ExportFormatter } from './formats';
+import { createPalette, Palette, semanticColorName } from './naming';
+import { Asset, findAssetUrls, isAssetUrl, replaceAssetUrls, resolveAsset } from './assets';
+import { contextSuffix, ContextRules, getDeclarationContext, getSelectorName, isSkippedContext, resolveContextRules } from './context';
+import { collectIgnoredNodes, isIgnored, isSelectorAllowed, isValueAllowed, Pattern } from './filters';
+import { createUsageReport, UsageReport, UsageReportOptions } from './report';
+import { processInOrder } from './concurrency';
+import { getImportRuleName, getImportSpecifier, injectImport, InjectedImport, removeImport } from './imports';
+import { declareScopedVariables, findScopeRule, isInScope, removeScopedVariables, ScopedDeclarations, ScopeMode, ScopeSelectorMode } from './scope';
+import { createTokenIndex, findNearestToken, findToken, parseTokenJson, TokenIndex } from './tokens';
+import { getCategoryKey, getCategoryProperties, getPixelLengths, getTokenCategory, isTokenValue, LengthUnit, mapLengths, snapToScale, TokenCategories, TokenCategory } from './categories';
 
-interface CssToVariableOptions {
+export interface CssToVariableOptions {
   /** 要扫描的目录路径 */
   directory: string;
   /** 要提取的CSS属性列表 */
@@ -17,65 +34,663 @@ interface CssToVariableOptions {
   outputFile?: string;
   /** 文件匹配模式 */
   pattern?: string;
-  /** 自定义变量命名规则 */
+  /** 忽略的文件（glob，相对 directory），如 ['vendor/**'] */
+  ignore?: string[];
+  /** 只处理所在选择器匹配的声明（正则），为空时不限制；嵌套规则中任一层选择器匹配即可 */
+  includeSelectors?: Pattern[];
+  /** 跳过所在选择器匹配的声明（正则），优先于 includeSelectors */
+  excludeSelectors?: Pattern[];
+  /** 只提取匹配的值（正则），为空时不限制 */
+  allowValues?: Pattern[];
+  /** 跳过匹配的值（正则），优先于 allowValues */
+  denyValues?: Pattern[];
+  /** 按上下文（@keyframes、:root、@font-face、自定义属性、媒体查询、状态伪类）决定是否提取及命名后缀 */
+  contexts?: ContextRules;
+  /** 同时预读解析的文件数，文件仍按路径顺序处理，默认 8 */
+  concurrency?: number;
+  /** 任一文件解析或处理出错时立即中止（不写入任何文件），默认跳过出错的文件并在结果中报告 */
+  failFast?: boolean;
+  /** 自动引入生成的变量文件：true 为每个改写的源文件，字符串为只引入到该入口样式文件（相对 directory）；SCSS/Sass 使用 @use */
+  injectImport?: boolean | string;
+  /** 引入变量文件使用的路径，如别名 ~@/styles/variables.css，默认为相对源文件的路径 */
+  importPath?: string;
+  /** 变量作用域：'folder'/'file' 时只在一个文件夹/文件中使用的新变量声明在组件根选择器上，跨作用域共用的变量仍声明在 :root，默认 'global' */
+  scope?: ScopeMode;
+  /** 作用域变量的声明位置：'where' 在根规则前新增 :where(根选择器) 规则（不增加优先级），'root' 直接声明在根规则中，默认 'where' */
+  scopeSelector?: ScopeSelectorMode;
+  /** 内置命名方式：'path' 按文件夹/类名/属性命名，'semantic' 按颜色的色相/亮度/透明度命名 */
+  naming?: NamingMode;
+  /** 启用的令牌分类（true 为全部）：分类中的属性自动加入提取，按分类命名（如 --spacing-4）、去重并在变量文件中分组 */
+  categories?: TokenCategory[] | boolean;
+  /** 分类取值中长度的输出单位，'rem' 时 px 按 remBase 换算，默认保持原单位 */
+  unit?: LengthUnit;
+  /** px 与 rem 换算的基准字号，默认 16 */
+  remBase?: number;
+  /** spacing、radius 的刻度：数字为步长（px），数组为可选的取值（px），不在刻度上的值通过 getScaleMismatches() 报告 */
+  scale?: number | number[];
+  /** 将不在刻度上的值对齐到最接近的刻度值，默认只报告 */
+  snapToScale?: boolean;
+  /** semantic 命名使用的调色板名称字典 { 名称: 颜色 }，或其JSON文件路径（相对 directory） */
+  palette?: string | Record<string, string>;
+  /** 自定义变量命名规则，优先于 naming */
   nameFormatter?: (property: string, value: string, decl?: postcss.Declaration) => string;
   /** 是否导出变量映射关系 */
   exportMap?: boolean;
-  /** 是否导出图片资源base64 */
-  assetsOutput?: boolean; 
+  /** 是否将图片资源提取为变量并输出资源变量文件(assets.css) */
+  assetsOutput?: boolean;
+  /** 小于等于该大小（字节）的本地图片内联为base64，更大的图片引用图片路径，默认 4096 */
+  assetInlineLimit?: number;
+  /** 是否将远程图片URL（https://）提取为变量，不会下载图片 */
+  remoteAssets?: boolean;
+  /** 参数为图片地址的SCSS mixin，如 ['bg']，@include bg('a.png') 中的图片同样提取为变量 */
+  assetMixins?: string[];
   /** 是否按文件夹拆分变量文件 */
   splitByFolder?: boolean;  
+  /** 是否仅预览改动而不写入文件 */
+  dryRun?: boolean;
+  /** 按值去重：true/'property' 同属性同值共用变量，'global' 跨属性同值共用变量 */
+  dedupe?: boolean | DedupeMode;
+  /** 替换记录(manifest)文件名，用于 restore 还原 */
+  manifestFile?: string;
+  /** inline 时读取自定义属性定义的变量文件（相对 directory 或绝对路径） */
+  variableFiles?: string[];
+  /** 主题定义，按变量名或原始值指定各主题下的取值 */
+  themes?: ThemeDefinitions;
+  /** 是否将SCSS变量定义转换为CSS自定义属性，并将匹配属性中的 $变量 引用改写为 var() */
+  scssVariables?: boolean;
+  /** 属性值提取方式：'whole' 整个值提取为变量，'token' 只提取值中的颜色片段 */
+  valueMode?: ValueMode;
+  /** 自定义语法适配器，优先于内置适配器（CSS/SCSS/LESS/Sass/Vue/Svelte/CSS-in-JS） */
+  syntaxAdapters?: SyntaxAdapter[];
+  /** 按目录覆盖配置，键为相对 directory 的目录路径 */
+  overrides?: Record<string, DirectoryOverride>;
+  /** 已有的设计令牌文件（CSS变量文件或JSON令牌），匹配的值直接复用已有变量 */
+  tokenFiles?: string[];
+  /** 颜色近似匹配的色差阈值(ΔE)，在阈值内的颜色只报告不替换，0 表示不检测 */
+  tokenTolerance?: number;
+  /** 合并模式：保留已有变量文件中的变量名和取值，只追加新变量，重复执行不产生改动 */
+  merge?: boolean;
+  /** 输出格式，可组合：css(变量文件)、dtcg、scss、ts、tailwind 及自定义格式名 */
+  formats?: string[];
+  /** 自定义导出格式，优先于内置格式 */
+  formatters?: ExportFormatter[];
 }
 
+export interface DirectoryOverride {
+  properties?: string[];
+  prefix?: string;
+  valueMode?: ValueMode;
+}
+
+export interface WatchOptions {
+  /** 防抖时间（毫秒），默认 100 */
+  debounce?: number;
+  /** 每批变更处理完成后的回调，参数为本批处理的文件 */
+  onChange?: (files: string[]) => void;
+}
+
+export interface WatchDisposable {
+  /** 停止监听，等待正在处理的变更写入完成，未处理的变更被丢弃 */
+  dispose(): Promise<void>;
+}
+
+export type DedupeMode = 'property' | 'global';
+
+export type ValueMode = 'whole' | 'token';
+
+export type NamingMode = 'path' | 'semantic';
+
 interface ExtractedVariable {
   property: string;
   value: string;
   variableName: string;
   filePath: string;
   line: number;
+  /** 替换后的属性值，缺省为 var(variableName) */
+  replacedValue?: string;
 }
 
-interface VariableUsage {
+export interface VariableUsage {
   filePath: string;
   line: number;
   property: string;
   value: string;
 }
 
-interface VariableReport {
+export interface VariableReport {
   variableName: string;
   value: string;
   usageCount: number;
   usages: VariableUsage[];
 }
 
-export class CssToVariable {
-  private options: Required<CssToVariableOptions>;
+export interface CheckViolation {
+  /** 相对 directory 的文件路径 */
+  filePath: string;
+  line: number;
+  column: number;
+  property: string;
+  /** 应替换为变量的字面值 */
+  value: string;
+}
+
+export interface TokenSuggestion {
+  /** 相对 directory 的文件路径 */
+  filePath: string;
+  line: number;
+  property: string;
+  /** 原始字面值 */
+  value: string;
+  /** 近似的令牌名 */
+  token: string;
+  /** 令牌的取值 */
+  tokenValue: string;
+  /** 色差 */
+  deltaE: number;
+}
+
+export interface ScaleMismatch {
+  /** 相对 directory 的文件路径 */
+  filePath: string;
+  line: number;
+  property: string;
+  category: TokenCategory;
+  /** 原始字面值 */
+  value: string;
+  /** 对齐到刻度后的值 */
+  snappedValue: string;
+}
+
+export interface FileError {
+  /** 相对 directory 的文件路径 */
+  filePath: string;
+  message: string;
+  /** 语法错误的位置 */
+  line?: number;
+  column?: number;
+}
+
+/**
+ * extract() 的执行结果
+ */
+export interface ExtractResult {
+  /** 成功处理的文件，相对 directory 的路径 */
+  processedFiles: string[];
+  /** 因出错而跳过的文件，其内容保持不变 */
+  skippedFiles: string[];
+  errors: FileError[];
+  /** 本次生成的变量（含资源变量） */
+  variables: VariableEvent[];
+}
+
+export interface FileStartEvent {
+  /** 相对 directory 的文件路径 */
+  filePath: string;
+  /** 从 0 开始的序号 */
+  index: number;
+  total: number;
+}
+
+export interface FileDoneEvent extends FileStartEvent {
+  /** 本文件提取（或检查出）的变量数量 */
+  variables: number;
+}
+
+export interface VariableEvent {
+  variableName: string;
+  value: string;
+  property: string;
+  /** 相对 directory 的文件路径 */
+  filePath: string;
+  line: number;
+}
+
+export interface WarningEvent {
+  message: string;
+  /** 相对 directory 的文件路径 */
+  filePath?: string;
+  line?: number;
+}
+
+export interface FailureEvent {
+  error: Error;
+  /** 相对 directory 的文件路径 */
+  filePath?: string;
+  /** 语法错误的位置 */
+  line?: number;
+  column?: number;
+}
+
+/**
+ * 事件及其参数，库本身不输出任何日志，需要时通过监听事件自行展示
+ */
+export interface CssToVariableEvents {
+  /** 开始处理文件 */
+  fileStart: [FileStartEvent];
+  /** 文件处理完成 */
+  fileDone: [FileDoneEvent];
+  /** 生成了新变量（复用已有变量时不触发） */
+  variable: [VariableEvent];
+  /** 无法转换的值、缺少主题取值等警告 */
+  warning: [WarningEvent];
+  /** 错误，没有监听时不会抛出 */
+  error: [FailureEvent];
+  /** 进度、生成文件等提示信息 */
+  log: [string];
+}
+
+interface FileDiff {
+  /** 文件绝对路径 */
+  filePath: string;
+  /** 是否为新建文件 */
+  isNew: boolean;
+  /** 是否为删除文件 */
+  isDeleted: boolean;
+  /** 统一格式(unified)的差异内容 */
+  diff: string;
+}
+
+interface ParsedStyleFile {
+  /** 文件原始内容 */
+  content: string;
+  /** 文件中的样式区域 */
+  regions: StyleRegion[];
+  /** 与样式区域一一对应的语法树 */
+  roots: postcss.Root[];
+}
+
+interface ExtractionManifest {
+  version: number;
+  createdAt: string;
+  /** 每一处替换记录，filePath 为相对 directory 的路径 */
+  replacements: ExtractedVariable[];
+  /** 生成的变量/资源文件，相对 directory 的路径 */
+  generatedFiles: string[];
+  /** 注入到源文件中的变量文件引入语句 */
+  imports?: InjectedImport[];
+  /** 声明在源文件组件根选择器上的作用域变量 */
+  scoped?: ScopedDeclarations[];
+}
+
+const MANIFEST_VERSION = 1;
+
+/** 暂存写入时使用的临时文件后缀 */
+const STAGING_SUFFIX = '.css-to-variable.tmp';
+
+export class CssToVariable extends EventEmitter<CssToVariableEvents> {
+  private options: Required<CssToVariableOptions> & { contexts: Required<ContextRules>; categories: TokenCategory[] };
   private extractedVariables: ExtractedVariable[] = [];
   private extractedAssets: ExtractedVariable[] = [];  // 新增：存储资源变量
+  private assetIndex: Map<string, string> = new Map();  // 资源去重键（内容哈希/URL） -> 变量名
   private variableMap: Map<string, VariableReport> = new Map();
+  private fileDiffs: FileDiff[] = [];
+  private dedupeIndex: Map<string, string> = new Map();  // 去重键 -> 变量名
+  private replacements: ExtractedVariable[] = [];  // 每一处替换记录，用于生成manifest
+  private generatedFiles: string[] = [];
+  private variablesEntry: string | null = null;  // 本次生成的变量文件（拆分时为 index.css），供源文件引入
+  private assetsEntry: string | null = null;  // 本次生成的资源变量文件，供引用了资源变量的源文件引入
+  private injectedImports: InjectedImport[] = [];
+  private scopedVariables: Set<string> = new Set();  // 声明在组件作用域内、不写入 :root 的变量
+  private scopedDeclarations: ScopedDeclarations[] = [];
+  private missingThemeValues: Map<string, string[]> = new Map();  // 主题名 -> 缺少取值的变量名
+  private scssVariables: ScssVariableMap = new Map();
+  private checking = false;  // check 模式下只记录违规，不提取也不写入
+  private violations: CheckViolation[] = [];
+  private tokens: TokenIndex | null = null;
+  private tokenSuggestions: TokenSuggestion[] = [];
+  private scaleMismatches: ScaleMismatch[] = [];
+  private palette: Palette = new Map();
+  private existingVariables: CustomPropertyMap = new Map();  // 合并模式下已有变量文件中的定义
+  private existingIndex: TokenIndex | null = null;
+  private ownWrites: Map<string, string> | null = null;  // 监听模式下工具自身写入的内容，用于忽略自身触发的变更
+  private prepared: Promise<void> | null = null;  // 构建工具集成时只准备一次
+  private ignoredFiles: Set<string> = new Set();  // 构建工具集成时 ignore 匹配的文件
+  private ignoredNodes: WeakMap<postcss.Root, Set<postcss.Node>> = new WeakMap();  // 忽略注释标记的节点
+  private staged: Map<string, string | null> | null = null;  // 暂存的写入（null 表示删除），全部成功后统一落盘
+  private fileErrors: FileError[] = [];
 
   constructor(options: CssToVariableOptions) {
+    super();
+    const categories = options.categories === true
+      ? Object.keys(TokenCategories) as TokenCategory[]
+      : options.categories || [];
     this.options = {
       directory: options.directory,
-      properties: options.properties,
+      // 启用分类的属性追加在显式配置的属性之后
+      properties: Array.from(new Set([...options.properties, ...getCategoryProperties(categories)])),
       prefix: options.prefix || '',
       outputFile: options.outputFile || 'variables.css',
-      pattern: options.pattern || '**/*.{css,scss}',
-      nameFormatter: options.nameFormatter || this.defaultNameFormatter.bind(this),
+      pattern: options.pattern || '**/*.{css,scss,less,sass,vue,svelte}',
+      ignore: options.ignore || [],
+      includeSelectors: options.includeSelectors || [],
+      excludeSelectors: options.excludeSelectors || [],
+      allowValues: options.allowValues || [],
+      denyValues: options.denyValues || [],
+      contexts: resolveContextRules(options.contexts),
+      concurrency: options.concurrency || 8,
+      failFast: options.failFast || false,
+      injectImport: options.injectImport || false,
+      importPath: options.importPath || '',
+      scope: options.scope || 'global',
+      scopeSelector: options.scopeSelector || 'where',
+      naming: options.naming || 'path',
+      categories,
+      unit: options.unit || 'px',
+      remBase: options.remBase || 16,
+      scale: options.scale || [],
+      snapToScale: options.snapToScale || false,
+      palette: options.palette || {},
+      nameFormatter: options.nameFormatter
+        || (options.naming === 'semantic' ? this.semanticNameFormatter.bind(this) : this.defaultNameFormatter.bind(this)),
       exportMap: options.exportMap || false,
       assetsOutput: options.assetsOutput || false,
-      splitByFolder: options.splitByFolder || false  // 添加 splitByFolder 的初始化
+      assetInlineLimit: options.assetInlineLimit ?? 4096,
+      remoteAssets: options.remoteAssets || false,
+      assetMixins: options.assetMixins || [],
+      splitByFolder: options.splitByFolder || false,  // 添加 splitByFolder 的初始化
+      dryRun: options.dryRun || false,
+      // 语义名称由值决定，相同的值总是共用一个变量
+      dedupe: options.dedupe === true ? 'property' : options.dedupe || (options.naming === 'semantic' ? 'global' : false),
+      manifestFile: options.manifestFile || 'css-to-variable.manifest.json',
+      variableFiles: options.variableFiles || [],
+      themes: options.themes || {},
+      scssVariables: options.scssVariables || false,
+      valueMode: options.valueMode || 'whole',
+      syntaxAdapters: [...(options.syntaxAdapters || []), ...defaultAdapters],
+      overrides: options.overrides || {},
+      tokenFiles: options.tokenFiles || [],
+      tokenTolerance: options.tokenTolerance || 0,
+      merge: options.merge || false,
+      formats: options.formats || ['css'],
+      formatters: [...(options.formatters || []), ...defaultFormatters]
+    };
+  }
+
+  /**
+   * 输出提示信息（log 事件）
+   */
+  private log(message: string): void {
+    this.emit('log', message);
+  }
+
+  /**
+   * 输出警告（warning 事件），filePath 为绝对路径
+   */
+  private warn(message: string, filePath?: string, line?: number): void {
+    this.emit('warning', { message, filePath: filePath && this.toRelativePath(filePath), line });
+  }
+
+  /**
+   * 输出错误（error 事件），EventEmitter 在没有监听 error 时会抛出，这里只在有监听时触发
+   */
+  private reportError(error: unknown, filePath?: string): void {
+    if (this.listenerCount('error') > 0) {
+      const { line, column } = error as { line?: number; column?: number };
+      this.emit('error', { error: error instanceof Error ? error : new Error(String(error)), filePath: filePath && this.toRelativePath(filePath), line, column });
+    }
+  }
+
+  /**
+   * 触发 variable 事件
+   */
+  private emitVariable(variable: ExtractedVariable): void {
+    this.emit('variable', {
+      variableName: variable.variableName,
+      value: variable.value,
+      property: variable.property,
+      filePath: this.toRelativePath(variable.filePath),
+      line: variable.line
+    });
+  }
+
+  /**
+   * 获取文件适用的配置，按目录覆盖配置合并，越具体的目录优先级越高
+   */
+  private getFileOptions(filePath: string): Required<DirectoryOverride> {
+    const relativePath = this.toRelativePath(filePath);
+    const fileOptions: Required<DirectoryOverride> = {
+      properties: this.options.properties,
+      prefix: this.options.prefix,
+      valueMode: this.options.valueMode
     };
+
+    const directories = Object.keys(this.options.overrides)
+      .filter((directory) => {
+        const normalized = directory.replace(/\\/g, '/').replace(/^\.\/|\/$/g, '');
+        return normalized === '.' || normalized === '' || relativePath.startsWith(`${normalized}/`);
+      })
+      .sort((a, b) => a.length - b.length);
+    for (const directory of directories) {
+      for (const [key, value] of Object.entries(this.options.overrides[directory])) {
+        if (value !== undefined) {
+          Object.assign(fileOptions, { [key]: value });
+        }
+      }
+    }
+    return fileOptions;
+  }
+
+  /**
+   * 读取文件并解析其中的样式区域
+   * 样式区域前补齐换行，使声明的行号与原文件一致
+   */
+  private async parseStyleFile(filePath: string, content?: string): Promise<ParsedStyleFile> {
+    content = content ?? await fs.promises.readFile(filePath, 'utf-8');
+    const regions = findAdapter(filePath, this.options.syntaxAdapters).extract(content, filePath);
+    const roots: postcss.Root[] = [];
+    for (const region of regions) {
+      const result = await postcss().process('\n'.repeat(region.line - 1) + region.content, {
+        from: filePath,
+        syntax: region.syntax
+      });
+      roots.push(result.root as postcss.Root);
+    }
+    return { content, regions, roots };
+  }
+
+  /**
+   * 将处理后的语法树写回原文件内容，样式区域以外的内容保持不变
+   */
+  private stringifyStyleFile(parsed: ParsedStyleFile): string {
+    const outputs = parsed.roots.map((root, index) => {
+      const region = parsed.regions[index];
+      return root.toString(region.syntax).slice(region.line - 1);
+    });
+    return replaceRegions(parsed.content, parsed.regions, outputs);
+  }
+
+  /**
+   * 获取文件中所有样式区域的声明
+   */
+  private getDeclarations(parsed: ParsedStyleFile): postcss.Declaration[] {
+    const declarations: postcss.Declaration[] = [];
+    parsed.roots.forEach((root, index) => {
+      const sass = parsed.regions[index].syntax === sugarss;
+      root.walkDecls((decl) => {
+        if (!sass || !isInSassMixin(decl)) {
+          declarations.push(decl);
+        }
+      });
+    });
+    return declarations;
+  }
+
+  /**
+   * 生成相对 directory 的路径，统一使用 / 分隔
+   */
+  private toRelativePath(filePath: string): string {
+    return path.relative(this.options.directory, filePath).split(path.sep).join('/');
+  }
+
+  /**
+   * 写入文件，暂存期间只记录内容，dryRun 模式下只记录差异不落盘
+   */
+  private async writeFile(filePath: string, content: string): Promise<void> {
+    if (this.staged) {
+      this.staged.set(filePath, content);
+      return;
+    }
+    if (this.options.dryRun) {
+      await this.recordDiff(filePath, content);
+      return;
+    }
+
+    if (this.ownWrites) {
+      // 监听模式下内容未变化时不写入，避免触发不必要的变更事件
+      if (fs.existsSync(filePath) && await fs.promises.readFile(filePath, 'utf-8') === content) {
+        return;
+      }
+      this.ownWrites.set(filePath, content);
+    }
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, content);
+  }
+
+  /**
+   * 读取文件当前内容，包含暂存中尚未落盘的写入，文件不存在时返回 null
+   */
+  private async readCurrentFile(filePath: string): Promise<string | null> {
+    const staged = this.staged?.get(filePath);
+    if (staged !== undefined) {
+      return staged;
+    }
+    return fs.existsSync(filePath) ? fs.promises.readFile(filePath, 'utf-8') : null;
+  }
+
+  /**
+   * dryRun 模式下记录文件差异，content 为 null 表示删除
+   */
+  private async recordDiff(filePath: string, content: string | null): Promise<void> {
+    const isNew = !fs.existsSync(filePath);
+    if (isNew && content === null) {
+      return;
+    }
+    const original = isNew ? '' : await fs.promises.readFile(filePath, 'utf-8');
+    if (original === content) {
+      return;
+    }
+    const fileName = this.toRelativePath(filePath);
+    this.fileDiffs.push({
+      filePath,
+      isNew,
+      isDeleted: content === null,
+      diff: createTwoFilesPatch(
+        isNew ? '/dev/null' : `a/${fileName}`,
+        content === null ? '/dev/null' : `b/${fileName}`,
+        original,
+        content ?? ''
+      )
+    });
+  }
+
+  /**
+   * 暂存执行过程中的所有写入，task 成功后统一落盘，task 出错时不写入任何文件
+   */
+  private async runStaged<T>(task: () => Promise<T>): Promise<T> {
+    this.staged = new Map();
+    try {
+      const result = await task();
+      await this.commitStagedWrites(this.staged);
+      return result;
+    } finally {
+      this.staged = null;
+    }
+  }
+
+  /**
+   * 落盘暂存的写入：先写入同目录下的临时文件，全部成功后再逐个重命名替换；
+   * 替换过程中出错时恢复已替换的文件
+   */
+  private async commitStagedWrites(staged: Map<string, string | null>): Promise<void> {
+    if (this.options.dryRun) {
+      for (const [filePath, content] of staged) {
+        await this.recordDiff(filePath, content);
+      }
+      return;
+    }
+    if (this.ownWrites) {
+      // 监听模式下内容未变化时不写入，避免触发不必要的变更事件
+      for (const [filePath, content] of staged) {
+        if (content !== null && fs.existsSync(filePath) && await fs.promises.readFile(filePath, 'utf-8') === content) {
+          staged.delete(filePath);
+        } else if (content !== null) {
+          this.ownWrites.set(filePath, content);
+        }
+      }
+    }
+
+    const tempFiles: string[] = [];
+    try {
+      for (const [filePath, content] of staged) {
+        if (content !== null) {
+          await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+          await fs.promises.writeFile(filePath + STAGING_SUFFIX, content);
+          tempFiles.push(filePath + STAGING_SUFFIX);
+        }
+      }
+    } catch (error) {
+      await Promise.all(tempFiles.map(file => fs.promises.rm(file, { force: true })));
+      throw error;
+    }
+
+    const originals = new Map<string, string | null>();
+    try {
+      for (const [filePath, content] of staged) {
+        originals.set(filePath, fs.existsSync(filePath) ? await fs.promises.readFile(filePath, 'utf-8') : null);
+        if (content === null) {
+          await fs.promises.rm(filePath, { force: true });
+        } else {
+          await fs.promises.rename(filePath + STAGING_SUFFIX, filePath);
+        }
+      }
+    } catch (error) {
+      for (const [filePath, original] of originals) {
+        await (original === null ? fs.promises.rm(filePath, { force: true }) : fs.promises.writeFile(filePath, original));
+      }
+      await Promise.all(tempFiles.map(file => fs.promises.rm(file, { force: true })));
+      throw error;
+    }
+  }
+
+  /**
+   * 写入生成的文件并记录到manifest
+   */
+  private async writeGeneratedFile(filePath: string, content: string): Promise<void> {
+    await this.writeFile(filePath, content);
+    this.generatedFiles.push(this.toRelativePath(filePath));
+  }
+
+  /**
+   * 删除文件，dryRun 模式下只记录差异
+   */
+  private async removeFile(filePath: string): Promise<void> {
+    if (!fs.existsSync(filePath)) {
+      return;
+    }
+    if (this.staged) {
+      this.staged.set(filePath, null);
+      return;
+    }
+    if (this.options.dryRun) {
+      await this.recordDiff(filePath, null);
+      return;
+    }
+    await fs.promises.unlink(filePath);
   }
 
   /**
    * 默认变量命名规则
    */
   private defaultNameFormatter(property: string, value: string, decl?: postcss.Declaration): string {
+    const category = getTokenCategory(property, this.options.categories);
+    if (category) {
+      return this.categoryNameFormatter(category, value, decl);
+    }
+
     // 获取文件夹名和类名
     let folderName = '';
     let className = '';
+    let contextName = '';
 
     if (decl) {
       // 获取文件夹名
@@ -89,29 +704,22 @@ export class CssToVariable {
         }
       }
 
-      // 获取类名
-      let parent = decl.parent as postcss.Rule | undefined;
-      while (parent) {
-        if (parent.type === 'rule') {
-          const selectorMatch = parent.selector.match(/\.(([\w-]+))/);
-          if (selectorMatch) {
-            className = selectorMatch[1];
-            break;
-          }
-        }
-        parent = parent.parent as postcss.Rule | undefined;
-      }
+      // 获取类名（无类名时使用ID或元素名），以及媒体查询、状态伪类后缀
+      className = getSelectorName(decl);
+      contextName = contextSuffix(getDeclarationContext(decl), this.options.contexts);
     }
-    const rewriteProperty = NameMap[property as keyof typeof NameMap] || property;
+    // 自定义属性去掉开头的 --
+    const rewriteProperty = NameMap[property as keyof typeof NameMap] || property.replace(/^--/, '');
    
     // 生成基础变量名
-    const baseVariableName = `--${this.options.prefix ? this.options.prefix + '-' : ''}${folderName ? `${folderName + '-'}` : ''}${className ? `${className + '-'}` : ''}${rewriteProperty}`;
+    const prefix = decl?.source?.input.file ? this.getFileOptions(decl.source.input.file).prefix : this.options.prefix;
+    const baseVariableName = `--${prefix ? prefix + '-' : ''}${folderName ? `${folderName + '-'}` : ''}${className ? `${className + '-'}` : ''}${rewriteProperty}${contextName}`;
 
     // 检查变量名是否已存在，如果存在则添加序号
     let finalVariableName = baseVariableName;
     let counter = 1;
 
-    while (this.extractedVariables.some(v => v.variableName === finalVariableName)) {
+    while (this.isVariableNameTaken(finalVariableName)) {
       finalVariableName = `${baseVariableName}-${counter}`;
       counter++;
     }
@@ -119,6 +727,54 @@ export class CssToVariable {
     return finalVariableName;
   }
 
+  /**
+   * 分类命名规则：--[前缀-]分类-取值，如 --spacing-16、--font-weight-bold、--z-100
+   * 取值无法用于命名（如阴影）时按序号命名，如 --shadow-1
+   */
+  private categoryNameFormatter(category: TokenCategory, value: string, decl?: postcss.Declaration): string {
+    const prefix = decl?.source?.input.file ? this.getFileOptions(decl.source.input.file).prefix : this.options.prefix;
+    const key = getCategoryKey(category, value, this.options.remBase, this.options.scale);
+    const baseVariableName = `--${prefix ? prefix + '-' : ''}${TokenCategories[category].name}`;
+
+    if (key && !this.isVariableNameTaken(`${baseVariableName}-${key}`)) {
+      return `${baseVariableName}-${key}`;
+    }
+    let counter = 1;
+    while (this.isVariableNameTaken(`${baseVariableName}-${key ? key + '-' : ''}${counter}`)) {
+      counter++;
+    }
+    return `${baseVariableName}-${key ? key + '-' : ''}${counter}`;
+  }
+
+  /**
+   * 语义命名规则：颜色按色相/亮度/透明度命名，如 --color-blue-700，其余值使用默认命名规则
+   * 不同颜色得到相同名称时追加颜色的十六进制值，保证同一颜色的名称始终不变
+   */
+  private semanticNameFormatter(property: string, value: string, decl?: postcss.Declaration): string {
+    const color = parseColor(value);
+    if (!color) {
+      return this.defaultNameFormatter(property, value, decl);
+    }
+
+    const prefix = decl?.source?.input.file ? this.getFileOptions(decl.source.input.file).prefix : this.options.prefix;
+    const name = `--${prefix ? prefix + '-' : ''}color-${semanticColorName(color, this.palette)}`;
+    const normalized = normalizeValue(value);
+    const taken = this.extractedVariables.some(v => v.variableName === name && normalizeValue(v.value) !== normalized)
+      || this.tokens?.names.has(name) || this.existingIndex?.names.has(name);
+    return taken ? `${name}-${toHex(color).slice(1)}` : name;
+  }
+
+  /**
+   * 变量名是否已被提取的变量、已有令牌或已有变量文件占用
+   */
+  private isVariableNameTaken(name: string): boolean {
+    return this.extractedVariables.some(v => v.variableName === name)
+      || this.extractedAssets.some(asset => asset.variableName === name)
+      || !!this.tokens?.names.has(name)
+      || !!this.existingIndex?.names.has(name)
+      || this.scopedVariables.has(name);
+  }
+
   /**
    * 生成变量名
    */
@@ -126,11 +782,30 @@ export class CssToVariable {
     return this.options.nameFormatter(property, value);
   }
 
+  /**
+   * 获取变量统计/去重使用的键，开启去重时按归一化后的值生成
+   */
+  private getVariableKey(property: string, value: string): string {
+    // 同一分类的属性共用变量，如 margin: 16px 与 padding: 16px
+    const category = getTokenCategory(property, this.options.categories);
+    if (category) {
+      return `${category}:${normalizeValue(value)}`;
+    }
+    switch (this.options.dedupe) {
+      case 'global':
+        return normalizeValue(value);
+      case 'property':
+        return `${property}:${normalizeValue(value)}`;
+      default:
+        return `${property}:${value}`;
+    }
+  }
+
   /**
    * 更新变量使用统计
    */
   private updateVariableUsage(variable: ExtractedVariable): void {
-    const key = `${variable.property}:${variable.value}`;
+    const key = this.getVariableKey(variable.property, variable.value);
     if (!this.variableMap.has(key)) {
       this.variableMap.set(key, {
         variableName: variable.variableName,
@@ -151,24 +826,117 @@ export class CssToVariable {
   }
 
   /**
-   * 解析单个文件
+   * 登记声明中提取出的值并返回变量名，开启去重时复用已有变量
+   */
+  private registerVariable(decl: postcss.Declaration, value: string, filePath: string): string {
+    const line = decl.source?.start?.line || 0;
+    const category = getTokenCategory(decl.prop, this.options.categories);
+    if (category) {
+      value = this.normalizeCategoryValue(category, decl, value, filePath);
+    }
+    // 合并模式下已有变量文件中的值沿用原变量名
+    const existingName = this.existingIndex && findToken(this.existingIndex, value);
+    if (existingName) {
+      this.updateVariableUsage({ property: decl.prop, value, variableName: existingName, filePath, line });
+      return existingName;
+    }
+    if (this.tokens) {
+      // 与已有令牌取值一致时直接引用令牌，不生成新变量
+      const token = findToken(this.tokens, value);
+      if (token) {
+        this.updateVariableUsage({ property: decl.prop, value, variableName: token, filePath, line });
+        return token;
+      }
+      const nearest = findNearestToken(this.tokens, value, this.options.tokenTolerance);
+      if (nearest) {
+        this.tokenSuggestions.push({
+          filePath: this.toRelativePath(filePath),
+          line,
+          property: decl.prop,
+          value,
+          token: nearest.name,
+          tokenValue: nearest.value,
+          deltaE: nearest.deltaE
+        });
+      }
+    }
+
+    const dedupeKey = this.getVariableKey(decl.prop, value);
+    const dedupedName = this.options.dedupe || category ? this.dedupeIndex.get(dedupeKey) : undefined;
+    const variableName = dedupedName || this.options.nameFormatter(decl.prop, value, decl);
+    const variable = {
+      property: decl.prop,
+      value,
+      variableName,
+      filePath,
+      line
+    };
+    if (!dedupedName) {
+      this.extractedVariables.push(variable);
+      this.dedupeIndex.set(dedupeKey, variableName);
+      this.emitVariable(variable);
+    }
+    this.updateVariableUsage(variable);
+    return variableName;
+  }
+
+  /**
+   * 分类取值的刻度检查与单位换算：不在刻度上的长度记录到 scaleMismatches，开启 snapToScale 时对齐到刻度
+   */
+  private normalizeCategoryValue(category: TokenCategory, decl: postcss.Declaration, value: string, filePath: string): string {
+    const { remBase, scale, unit } = this.options;
+    if (!TokenCategories[category].lengths) {
+      return value;
+    }
+    const hasScale = Array.isArray(scale) ? scale.length > 0 : scale > 0;
+    if (TokenCategories[category].scaled && hasScale) {
+      const lengths = getPixelLengths(value, remBase);
+      if (lengths.some(pixels => snapToScale(pixels, scale) !== pixels)) {
+        const snappedValue = mapLengths(value, unit, remBase, pixels => snapToScale(pixels, scale));
+        this.scaleMismatches.push({
+          filePath: this.toRelativePath(filePath),
+          line: decl.source?.start?.line || 0,
+          property: decl.prop,
+          category,
+          value,
+          snappedValue
+        });
+        if (this.options.snapToScale) {
+          return snappedValue;
+        }
+      }
+    }
+    return unit === 'rem' ? mapLengths(value, unit, remBase) : value;
+  }
+
+  /**
+   * 记录 check 模式下发现的字面值
    */
-  private async parseFile(filePath: string): Promise<void> {
-    console.log(`📝 正在处理文件: ${path.relative(this.options.directory, filePath)}`);  // 添加文件处理提示
-    const content = await fs.promises.readFile(filePath, 'utf-8');
-    const result = await postcss().process(content, {
-      from: filePath,
-      syntax: path.extname(filePath) === '.scss' ? scss : undefined
+  private addViolation(decl: postcss.Declaration, value: string, filePath: string): void {
+    const start = decl.source?.start;
+    // 定位到值中的具体片段，无法定位时使用声明的起始列
+    const valueColumn = (start?.column || 0) + decl.prop.length + (decl.raws.between || ':').length;
+    const index = decl.value.indexOf(value);
+    this.violations.push({
+      filePath: this.toRelativePath(filePath),
+      line: start?.line || 0,
+      column: index >= 0 && !decl.value.slice(0, index).includes('\n') ? valueColumn + index : start?.column || 0,
+      property: decl.prop,
+      value
     });
+  }
 
-    // 创建一个新的PostCSS处理器实例来处理变量替换
-    const processor = postcss();
-    const root = result.root;
+  /**
+   * 解析单个文件
+   */
+  private async parseFile(filePath: string, parsed?: ParsedStyleFile): Promise<number> {
+    parsed = parsed || await this.parseStyleFile(filePath);
+    const declarations = this.getDeclarations(parsed);
 
-    // 首先处理SCSS变量定义
-    if (path.extname(filePath) === '.scss') {
+    // 首先处理SCSS变量定义（开启 scssVariables 时已在 extract 中统一处理）
+    if (path.extname(filePath) === '.scss' && !this.options.scssVariables && !this.checking) {
       
-      root.walkDecls((decl) => {
+      declarations.forEach((decl) => {
         if (decl.prop.startsWith('$')) {
           const variableName = this.generateVariableName('color', decl.value);
           const variable = {
@@ -183,113 +951,534 @@ export class CssToVariable {
       });
     }
 
-    let variablesCount = 0;
-    const declarations: postcss.Declaration[] = [];
-    root.walkDecls((decl) => {
-      declarations.push(decl);
-    });
+    const violationCount = this.violations.length;
+    let variablesCount = await this.processDeclarations(declarations, filePath);
 
-    for (const decl of declarations) {
-      if (this.options.properties.includes(decl.prop) && !decl.value.startsWith('var(') && !decl.value.startsWith('--')) {
-        // 检查属性值是否包含SCSS变量（$符号）或@include指令
-        if (decl.value.includes('$') || decl.parent?.type === 'atrule' && (decl.parent as postcss.AtRule).name === 'include') {
-          continue;  // 跳过SCSS变量和@include指令
-        }
+    if (this.checking) {
+      return this.violations.length - violationCount;
+    }
+    for (const root of parsed.roots) {
+      variablesCount += await this.processAssetIncludes(root, filePath);
+    }
 
-        // 处理所有图片路径，包括相对路径和url()函数
-        const isImageUrl = decl.value.match(/url\(['"]?([^'")\s]+\.(?:png|jpg|jpeg|gif|svg|webp))['"]?\)/i);
-        
-        if (isImageUrl) {
-          try {
-            const imgPath = path.resolve(
-              path.dirname(decl.source?.input.file || ''),
-              isImageUrl[1]
-            );
-            
-            if (fs.existsSync(imgPath)) {
-              const base64String = await imageToBase64(imgPath);
-              const imageType = path.extname(imgPath).slice(1);
-              const base64Value = `url(data:image/${imageType};base64,${base64String})`;
-              
-              const variableName = this.options.nameFormatter(decl.prop, base64Value, decl);
-              const variable = {
-                property: decl.prop,
-                value: base64Value,
-                variableName,
-                filePath,
-                line: decl.source?.start?.line || 0
-              };
-              
-              this.extractedAssets.push(variable);
-              this.updateVariableUsage(variable);
-              variablesCount++;
-            }
-          } catch (error) {
-            console.warn(`⚠️ 警告：处理图片 ${decl.value} 时出错：`, error);
-          }
-          continue;  // 改用 continue 而不是 return，确保继续处理其他声明
-        }
+    // 写入更新后的文件内容，样式区域以外的内容保持不变
+    await this.writeFile(filePath, this.stringifyStyleFile(parsed));
+    return variablesCount;
+  }
 
-        // 如果属性值为transparent，跳过处理
-        if (decl.value.toLowerCase() === 'transparent') {
-          continue;
-        }
-        const variableName = this.options.nameFormatter(decl.prop, decl.value, decl);
-        const variable = {
+  /**
+   * 并发预读解析文件，按顺序逐个处理，并触发 fileStart / fileDone 事件
+   * 出错的文件撤销其提取结果后跳过，failFast 时直接抛出
+   */
+  private async processFiles(files: string[], failFast = this.options.failFast): Promise<void> {
+    const load = (file: string): Promise<ParsedStyleFile | Error> =>
+      this.parseStyleFile(file).catch(error => failFast ? Promise.reject(error) : error as Error);
+
+    await processInOrder(files, this.options.concurrency, load, async (parsed, file, index) => {
+      const event = { filePath: this.toRelativePath(file), index, total: files.length };
+      this.emit('fileStart', event);
+      try {
+        if (parsed instanceof Error) {
+          throw parsed;
+        }
+        const variables = await this.parseFile(file, parsed);
+        this.emit('fileDone', { ...event, variables });
+      } catch (error) {
+        if (failFast) {
+          throw error;
+        }
+        this.skipFile(file, error as Error);
+      }
+    });
+  }
+
+  /**
+   * 撤销出错文件的提取结果，并记录错误及其位置
+   */
+  private skipFile(filePath: string, error: Error): void {
+    const relativePath = this.toRelativePath(filePath);
+    this.clearFileResults(filePath);
+    this.staged?.delete(filePath);
+
+    // postcss 的 CssSyntaxError 带有 reason、line、column
+    const { reason, line, column } = error as Error & { reason?: string; line?: number; column?: number };
+    this.fileErrors.push({ filePath: relativePath, message: reason || error.message, line, column });
+    this.reportError(error, filePath);
+  }
+
+  /**
+   * 处理文件中的声明：将匹配属性中的字面值替换为变量（check 模式下只记录违规），返回提取的变量数量
+   */
+  private async processDeclarations(declarations: postcss.Declaration[], filePath: string): Promise<number> {
+    const fileOptions = this.getFileOptions(filePath);
+    let variablesCount = 0;
+    for (const decl of declarations) {
+      if (isSkippedContext(getDeclarationContext(decl), this.options.contexts)) {
+        continue;
+      }
+      // 自定义属性定义改写为对提取变量的引用，而不是生成重复的变量
+      if (decl.prop.startsWith('--') && !fileOptions.properties.includes(decl.prop)) {
+        if (this.checking) {
+          // 与 extract 使用相同的上下文规则：会被改写为变量引用的定义同样视为违规
+          if (this.isAliasableCustomProperty(decl, fileOptions.properties) && this.options.nameFormatter(decl.prop, decl.value, decl) !== decl.prop) {
+            this.addViolation(decl, decl.value, filePath);
+          }
+        } else if (this.aliasCustomProperty(decl, fileOptions.properties, filePath)) {
+          variablesCount++;
+        }
+        continue;
+      }
+      if (fileOptions.properties.includes(decl.prop) && !decl.value.startsWith('var(') && !decl.value.startsWith('--')
+        && !this.isExcluded(decl, decl.value)) {
+        // 将 $变量 引用改写为对应的CSS自定义属性
+        if (this.options.scssVariables && decl.value.includes('$')) {
+          if (!this.checking && this.replaceScssUsage(decl, filePath)) {
+            variablesCount++;
+          }
+          continue;
+        }
+
+        // 检查属性值是否包含SCSS变量（$符号）或@include指令
+        if (decl.value.includes('$') || decl.parent?.type === 'atrule' && (decl.parent as postcss.AtRule).name === 'include') {
+          continue;  // 跳过SCSS变量和@include指令
+        }
+
+        // 跳过LESS变量（@变量）和CSS-in-JS插值
+        if (/(^|[\s,(])@\{?[\w-]/.test(decl.value) || PLACEHOLDER_PATTERN.test(decl.value)) {
+          continue;
+        }
+
+        // 跳过LESS转义及LESS/Sass函数（如 darken(#fff, 10%)），其结果不能写入CSS变量文件
+        if (isPreprocessorValue(decl.value)) {
+          continue;
+        }
+
+        // 分类属性中的关键字（inherit、none、auto 等）及 calc()、var() 等取值不是令牌
+        if (getTokenCategory(decl.prop, this.options.categories) && !isTokenValue(decl.value)) {
+          continue;
+        }
+
+        // 只替换值中的颜色片段，图片等其余部分保持不变
+        if (fileOptions.valueMode === 'token') {
+          const variableNames: string[] = [];
+          const result = replaceColorTokens(decl.value, (token) => {
+            if (this.checking) {
+              this.addViolation(decl, token, filePath);
+              return token;
+            }
+            const variableName = this.registerVariable(decl, token, filePath);
+            variableNames.push(variableName);
+            return `var(${variableName})`;
+          });
+          if (result.changed && !this.checking) {
+            this.replacements.push({
+              property: decl.prop,
+              value: decl.value,
+              variableName: variableNames[0],
+              filePath: this.toRelativePath(filePath),
+              line: decl.source?.start?.line || 0,
+              replacedValue: result.value
+            });
+            decl.value = result.value;
+            variablesCount += variableNames.length;
+          }
+        }
+
+        // 处理图片资源（本地图片及远程URL）
+        if (findAssetUrls(decl.value).length > 0) {
+          if (this.checking || !this.options.assetsOutput) {
+            continue;  // 图片资源不视为违规，未开启资源输出时保持原样
+          }
+          try {
+            variablesCount += await this.replaceAssets(decl, filePath);
+          } catch (error) {
+            this.warn(`处理图片 ${decl.value} 时出错：${(error as Error).message}`, filePath, decl.source?.start?.line);
+          }
+          continue;  // 改用 continue 而不是 return，确保继续处理其他声明
+        }
+
+        // 如果属性值为transparent，跳过处理
+        if (decl.value.toLowerCase() === 'transparent') {
+          continue;
+        }
+        // 颜色片段已在 token 模式中处理
+        if (fileOptions.valueMode === 'token') {
+          continue;
+        }
+
+        if (this.checking) {
+          this.addViolation(decl, decl.value, filePath);
+          continue;
+        }
+
+        // 开启去重时，相同的值复用已生成的变量
+        const variableName = this.registerVariable(decl, decl.value, filePath);
+        this.replacements.push({
           property: decl.prop,
           value: decl.value,
           variableName,
-          filePath,
+          filePath: this.toRelativePath(filePath),
           line: decl.source?.start?.line || 0
-        };
-        this.extractedVariables.push(variable);
-        this.updateVariableUsage(variable);
+        });
         decl.value = `var(${variableName})`;
         variablesCount++; // 增加变量计数
       }
     };
+    return variablesCount;
+  }
+
+  /**
+   * 加载已有的设计令牌文件：JSON 按令牌格式解析，其余按样式文件收集自定义属性
+   */
+  private async loadTokens(): Promise<void> {
+    if (this.options.tokenFiles.length === 0) {
+      return;
+    }
+
+    const definitions: CustomPropertyMap = new Map();
+    for (const tokenFile of this.options.tokenFiles) {
+      const filePath = path.resolve(this.options.directory, tokenFile);
+      if (!fs.existsSync(filePath)) {
+        throw new Error(`令牌文件不存在: ${tokenFile}`);
+      }
+      if (path.extname(filePath).toLowerCase() === '.json') {
+        parseTokenJson(JSON.parse(await fs.promises.readFile(filePath, 'utf-8')), definitions);
+        continue;
+      }
+      const parsed = await this.parseStyleFile(filePath);
+      parsed.roots.forEach(root => collectCustomProperties(root, definitions));
+    }
 
-    if (variablesCount > 0) {
-      console.log(`✨ 从文件中提取了 ${variablesCount} 个变量`);  // 显示提取的变量数量
+    this.tokens = createTokenIndex(definitions);
+    this.log(`🎨 加载了 ${definitions.size} 个已有令牌`);
+  }
+
+  /**
+   * 加载 semantic 命名使用的调色板
+   */
+  private async loadPalette(): Promise<void> {
+    let dictionary = this.options.palette;
+    if (typeof dictionary === 'string') {
+      const filePath = path.resolve(this.options.directory, dictionary);
+      if (!fs.existsSync(filePath)) {
+        throw new Error(`调色板文件不存在: ${dictionary}`);
+      }
+      dictionary = JSON.parse(await fs.promises.readFile(filePath, 'utf-8')) as Record<string, string>;
     }
+    this.palette = createPalette(dictionary);
+  }
+
+  /**
+   * 自定义属性定义是否需要改写为对提取变量的引用：开启 customProperties: 'alias'，提取的属性包含颜色属性，
+   * 值为颜色，且未被作用域变量或过滤条件排除
+   */
+  private isAliasableCustomProperty(decl: postcss.Declaration, properties: string[]): boolean {
+    return this.options.contexts.customProperties === 'alias' && properties.some(isColorProperty)
+      && !this.scopedVariables.has(decl.prop) && !!parseColor(decl.value) && !this.isExcluded(decl, decl.value);
+  }
 
-    // 使用原始的PostCSS实例处理更新后的根节点
-    const processedResult = await postcss().process(root.toString(), {
-      from: filePath,
-      syntax: path.extname(filePath) === '.scss' ? scss : undefined
+  /**
+   * 将值为颜色的自定义属性定义（--x: #fff）改写为对提取变量的引用（--x: var(--a-x)），返回是否改写
+   */
+  private aliasCustomProperty(decl: postcss.Declaration, properties: string[], filePath: string): boolean {
+    if (!this.isAliasableCustomProperty(decl, properties)) {
+      return false;
+    }
+    const variableName = this.registerVariable(decl, decl.value, filePath);
+    // 生成的变量与定义同名时（如语义命名）保持原样，避免循环引用
+    if (variableName === decl.prop) {
+      return false;
+    }
+    this.replacements.push({
+      property: decl.prop,
+      value: decl.value,
+      variableName,
+      filePath: this.toRelativePath(filePath),
+      line: decl.source?.start?.line || 0
     });
+    decl.value = `var(${variableName})`;
+    return true;
+  }
 
-    // 写入更新后的文件内容
-    await fs.promises.writeFile(filePath, processedResult.css);
-    console.log(`✅ 文件更新完成: ${path.relative(this.options.directory, filePath)}`);  // 添加文件更新完成提示
+  /**
+   * 节点是否被忽略注释、选择器或值过滤排除
+   */
+  private isExcluded(node: postcss.Declaration | postcss.AtRule, value: string): boolean {
+    const root = node.root();
+    if (!this.ignoredNodes.has(root)) {
+      this.ignoredNodes.set(root, collectIgnoredNodes(root));
+    }
+    return isIgnored(node, this.ignoredNodes.get(root)!)
+      || !isSelectorAllowed(node, this.options.includeSelectors, this.options.excludeSelectors)
+      || !isValueAllowed(value, this.options.allowValues, this.options.denyValues);
   }
 
   /**
-   * 生成变量定义文件
+   * 登记图片资源并返回变量名，内容相同的图片（远程图片为相同URL）共用一个变量
    */
-  private async generateVariablesFile(): Promise<void> {
-    // 如果没有提取到任何变量，则输出提示信息并返回
-    if (this.extractedVariables.length === 0) {
-      console.log('⚠️ 警告：未提取到任何CSS变量，跳过文件生成。');
-      return;
+  private registerAsset(property: string, line: number, asset: Asset, filePath: string): string {
+    let variableName = this.assetIndex.get(asset.key);
+    if (!variableName) {
+      const prefix = this.getFileOptions(filePath).prefix;
+      variableName = `--${prefix ? prefix + '-' : ''}img-${asset.name}`;
+      if (this.isVariableNameTaken(variableName)) {
+        variableName = `${variableName}-${asset.hash.slice(0, 8)}`;
+      }
+      this.assetIndex.set(asset.key, variableName);
+      this.extractedAssets.push({ property, value: asset.value, variableName, filePath, line });
+      this.emitVariable({ property, value: asset.value, variableName, filePath, line });
     }
+    this.updateVariableUsage({ property, value: asset.value, variableName, filePath, line });
+    return variableName;
+  }
 
-    // 用于收集所有生成的变量文件路径
-    const generatedFiles: string[] = [];
+  /**
+   * 解析地址对应的资源，无法处理的地址返回 null
+   */
+  private resolveAssetUrl(url: string, filePath: string): Promise<Asset | null> {
+    return resolveAsset(url, filePath, {
+      inlineLimit: this.options.assetInlineLimit,
+      remote: this.options.remoteAssets,
+      outputDir: this.options.directory
+    });
+  }
 
-    // 按文件夹分组变量
+  /**
+   * 将声明中的图片 url() 替换为资源变量，返回替换的数量
+   */
+  private async replaceAssets(decl: postcss.Declaration, filePath: string): Promise<number> {
+    const line = decl.source?.start?.line || 0;
+    const variableNames = new Map<string, string>();
+    for (const url of findAssetUrls(decl.value)) {
+      const asset = variableNames.has(url) ? null : await this.resolveAssetUrl(url, filePath);
+      if (asset) {
+        variableNames.set(url, this.registerAsset(decl.prop, line, asset, filePath));
+      }
+    }
+    if (variableNames.size === 0) {
+      return 0;
+    }
+
+    const replacedValue = replaceAssetUrls(decl.value, url => variableNames.has(url) ? `var(${variableNames.get(url)})` : undefined);
+    // token 模式下同一声明中的颜色已被替换时，合并为一条替换记录，保证 restore 能一次还原
+    const previous = this.replacements.find(item => item.filePath === this.toRelativePath(filePath)
+      && item.line === line && item.property === decl.prop && item.replacedValue === decl.value);
+    if (previous) {
+      previous.replacedValue = replacedValue;
+    } else {
+      this.replacements.push({
+        property: decl.prop,
+        value: decl.value,
+        variableName: variableNames.values().next().value as string,
+        filePath: this.toRelativePath(filePath),
+        line,
+        replacedValue
+      });
+    }
+    decl.value = replacedValue;
+    return variableNames.size;
+  }
+
+  /**
+   * 处理 assetMixins 中的 @include，如 @include bg('a.png') 改写为 @include bg(var(--img-a))
+   * 对应的 mixin 需要接受完整的图片值（如 background-image: $image），而不是再包一层 url()
+   */
+  private async processAssetIncludes(root: postcss.Root, filePath: string): Promise<number> {
+    if (!this.options.assetsOutput || this.options.assetMixins.length === 0) {
+      return 0;
+    }
+
+    const includes: postcss.AtRule[] = [];
+    root.walkAtRules('include', (atRule) => {
+      const mixin = atRule.params.match(/^([\w-]+)\s*\(/)?.[1];
+      if (mixin && this.options.assetMixins.includes(mixin) && !this.isExcluded(atRule, atRule.params)
+        && !isSkippedContext(getDeclarationContext(atRule), this.options.contexts)) {
+        includes.push(atRule);
+      }
+    });
+
+    let count = 0;
+    for (const atRule of includes) {
+      const line = atRule.source?.start?.line || 0;
+      const property = `@include ${atRule.params.match(/^[\w-]+/)![0]}`;
+      const variableNames = new Map<string, string>();
+      for (const [, quote, url] of atRule.params.matchAll(/(['"])([^'"]+)\1/g)) {
+        const asset = quote && isAssetUrl(url) && !variableNames.has(url) ? await this.resolveAssetUrl(url, filePath) : null;
+        if (asset) {
+          variableNames.set(url, this.registerAsset(property, line, asset, filePath));
+        }
+      }
+      if (variableNames.size === 0) {
+        continue;
+      }
+
+      const replacedValue = atRule.params.replace(/(['"])([^'"]+)\1/g, (match, _quote, url: string) =>
+        variableNames.has(url) ? `var(${variableNames.get(url)})` : match);
+      this.replacements.push({
+        property,
+        value: atRule.params,
+        variableName: variableNames.values().next().value as string,
+        filePath: this.toRelativePath(filePath),
+        line,
+        replacedValue
+      });
+      atRule.params = replacedValue;
+      count += variableNames.size;
+    }
+    return count;
+  }
+
+  /**
+   * 收集所有文件（含 .vue 中的 lang="scss" 样式块）中的SCSS变量定义，并将可转换的定义登记为CSS自定义属性
+   */
+  private async collectScssDefinitions(files: string[]): Promise<void> {
+    for (const file of files) {
+      const parsed = await this.parseStyleFile(file);
+      parsed.roots.forEach(root => collectScssVariables(root, file, this.scssVariables));
+    }
+    resolveScssVariables(this.scssVariables);
+
+    for (const variable of this.scssVariables.values()) {
+      if (!variable.convertible) {
+        this.warn(`SCSS变量 $${variable.name}（${this.toRelativePath(variable.filePath)}:${variable.line}）无法转换：${variable.reason}，保持原样`, variable.filePath, variable.line);
+        continue;
+      }
+      this.extractedVariables.push({
+        property: `$${variable.name}`,
+        value: variable.value,
+        variableName: this.getScssVariableName(variable.name),
+        filePath: variable.filePath,
+        line: variable.line
+      });
+    }
+  }
+
+  /**
+   * SCSS变量对应的CSS自定义属性名
+   */
+  private getScssVariableName(name: string): string {
+    return `--${this.options.prefix ? this.options.prefix + '-' : ''}${name}`;
+  }
+
+  /**
+   * 将声明中的 $变量 引用改写为 var()，存在无法转换的引用时保持原样
+   */
+  private replaceScssUsage(decl: postcss.Declaration, filePath: string): boolean {
+    const referenced: string[] = [];
+    const result = replaceScssReferences(decl.value, (name) => {
+      const variable = this.scssVariables.get(name);
+      if (!variable?.convertible) {
+        return undefined;
+      }
+      referenced.push(name);
+      return `var(${this.getScssVariableName(name)})`;
+    });
+
+    const line = decl.source?.start?.line || 0;
+    if (result.unresolved.length > 0) {
+      this.warn(`${this.toRelativePath(filePath)}:${line} ${decl.prop}: ${decl.value} 中的 $${result.unresolved.join(', $')} 无法转换，保持原样`, filePath, line);
+      return false;
+    }
+    if (!result.changed) {
+      return false;
+    }
+
+    for (const name of referenced) {
+      this.updateVariableUsage({
+        property: decl.prop,
+        value: `$${name}`,
+        variableName: this.getScssVariableName(name),
+        filePath,
+        line
+      });
+    }
+    this.replacements.push({
+      property: decl.prop,
+      value: decl.value,
+      variableName: this.getScssVariableName(referenced[0]),
+      filePath: this.toRelativePath(filePath),
+      line,
+      replacedValue: result.value
+    });
+    decl.value = result.value;
+    return true;
+  }
+
+  /**
+   * 按文件夹分组变量，分组名为文件夹注释，组内按变量名去重
+   */
+  private groupVariables(variablesByFolder: Map<string, ExtractedVariable[]>): Array<[string, Array<[string, string]>]> {
+    return Array.from(variablesByFolder.entries()).map(([folder, variables]) => {
+      // 将文件夹路径中的空格替换为连字符
+      const normalizedFolder = folder === '.' ? '根目录' : folder.replace(/\s+/g, '-');
+      const uniqueVariables = new Map<string, string>();
+      for (const variable of variables) {
+        uniqueVariables.set(variable.variableName, variable.value);
+      }
+      return [normalizedFolder, Array.from(uniqueVariables.entries())];
+    });
+  }
+
+  /**
+   * 生成单个变量文件的内容：按文件夹分组的 :root 块及主题块
+   */
+  private renderVariablesContent(groups: Array<[string, Array<[string, string]>]>): string {
+    let variablesContent = ':root {\n';
+    for (const [folder, entries] of groups) {
+      variablesContent += `\n  /* ${folder} */\n`;
+      variablesContent += entries.map(([name, value]) => `  ${name}: ${value};`).join('\n') + '\n';
+    }
+    variablesContent += '}\n';
+    return variablesContent + this.renderThemes(groups.flatMap(([, entries]) => entries));
+  }
+
+  /**
+   * 按来源文件夹分组已提取的变量，属于令牌分类的变量按分类分组
+   */
+  private getVariablesByFolder(): Map<string, ExtractedVariable[]> {
     const variablesByFolder = new Map<string, ExtractedVariable[]>();
-    for (const variable of this.extractedVariables) {
+    for (const variable of this.getGlobalVariables()) {
       const filePath = variable.filePath;
       const relativePath = path.relative(this.options.directory, filePath);
       // 将文件夹路径中的空格替换为连字符
-      const folderPath = path.dirname(relativePath).replace(/\s+/g, '-');
+      const folderPath = getTokenCategory(variable.property, this.options.categories)
+        || path.dirname(relativePath).replace(/\s+/g, '-');
       
       if (!variablesByFolder.has(folderPath)) {
         variablesByFolder.set(folderPath, []);
       }
       variablesByFolder.get(folderPath)!.push(variable);
     }
+    return variablesByFolder;
+  }
+
+  /**
+   * 声明在 :root 中的变量，作用域变量除外
+   */
+  private getGlobalVariables(): ExtractedVariable[] {
+    return this.extractedVariables.filter(variable => !this.scopedVariables.has(variable.variableName));
+  }
+
+  /**
+   * 生成变量定义文件
+   */
+  private async generateVariablesFile(): Promise<void> {
+    this.variablesEntry = null;
+    // 如果没有提取到任何变量，则输出提示信息并返回
+    if (this.extractedVariables.length === 0) {
+      this.warn('未提取到任何CSS变量，跳过文件生成。');
+      return;
+    }
+    // 所有变量均声明在组件作用域内
+    if (this.getGlobalVariables().length === 0) {
+      return;
+    }
+
+    // 用于收集所有生成的变量文件路径
+    const generatedFiles: string[] = [];
+
+    // 按文件夹分组变量
+    const variablesByFolder = this.getVariablesByFolder();
 
     if (this.options.splitByFolder) {
       // 按文件夹分别生成变量文件
@@ -303,104 +1492,375 @@ export class CssToVariable {
           uniqueVariables.set(variable.variableName, variable.value);
         }
 
-        // 添加变量定义
-        variablesContent += Array.from(uniqueVariables.entries())
-          .map(([name, value]) => `  ${name}: ${value};`)
-          .join('\n') + '\n';
-
-        variablesContent += '}\n';
-
         // 生成文件名
         const folderName = folder === '.' ? 'root' : folder.replace(/[\\/]/g, '-');
         const outputFileName = this.options.outputFile.replace(/\.css$/, `-${folderName}.css`);
         const variablesDir = path.join(this.options.directory, 'variables');
-        
-        // 确保variables目录存在
-        if (!fs.existsSync(variablesDir)) {
-          fs.mkdirSync(variablesDir, { recursive: true });
-        }
-        
         const outputFilePath = path.join(variablesDir, outputFileName);
 
-        // 写入文件
-        await fs.promises.writeFile(outputFilePath, variablesContent);
-        console.log(`✨ 生成变量文件: ${outputFileName}`);
+        if (this.options.merge && fs.existsSync(outputFilePath)) {
+          variablesContent = await this.mergeVariablesFile(outputFilePath, [[folder === '.' ? '根目录' : folder, Array.from(uniqueVariables.entries())]]);
+        } else {
+          // 添加变量定义
+          variablesContent += Array.from(uniqueVariables.entries())
+            .map(([name, value]) => `  ${name}: ${value};`)
+            .join('\n') + '\n';
+
+          variablesContent += '}\n';
+          variablesContent += this.renderThemes(Array.from(uniqueVariables.entries()));
+        }
+
+        // 写入文件（会自动创建variables目录）
+        await this.writeGeneratedFile(outputFilePath, variablesContent);
+        this.log(`✨ 生成变量文件: ${outputFileName}`);
         generatedFiles.push(outputFileName);
       }
     } else {
       // 生成单个变量文件
-      let variablesContent = ':root {\n';
+      const groups = this.groupVariables(variablesByFolder);
+      let variablesContent: string;
 
-      // 按文件夹生成分组注释和变量
-      for (const [folder, variables] of variablesByFolder) {
-        // 添加文件夹注释，将文件夹路径中的空格替换为连字符
-        const normalizedFolder = folder === '.' ? '根目录' : folder.replace(/\s+/g, '-');
-        variablesContent += `\n  /* ${normalizedFolder} */\n`;
+      let outputFilePath = path.join(this.options.directory, this.options.outputFile);
+      if (this.options.merge && fs.existsSync(outputFilePath)) {
+        // 合并模式：写回同一个文件，只追加新变量
+        variablesContent = await this.mergeVariablesFile(outputFilePath, groups);
+      } else {
+        variablesContent = this.renderVariablesContent(groups);
 
-        // 去重并生成变量定义
-        const uniqueVariables = new Map<string, string>();
-        for (const variable of variables) {
-          uniqueVariables.set(variable.variableName, variable.value);
+        // 处理文件名冲突
+        let counter = 1;
+        const ext = path.extname(outputFilePath);
+        const base = outputFilePath.slice(0, -ext.length);
+
+        while (fs.existsSync(outputFilePath)) {
+          outputFilePath = `${base}-${counter}${ext}`;
+          counter++;
         }
+      }
+
+      // 写入文件
+      await this.writeGeneratedFile(outputFilePath, variablesContent);
+      this.log(`✨ 生成变量文件: ${path.basename(outputFilePath)}`);
+      generatedFiles.push(path.basename(outputFilePath));
+      this.variablesEntry = outputFilePath;
+
+      // 如果文件名与原始文件名不同，输出提示信息
+      if (outputFilePath !== path.join(this.options.directory, this.options.outputFile)) {
+        this.log(`ℹ️ 提示：由于文件名冲突，变量文件已保存为：${path.basename(outputFilePath)}`);
+      }
 
-        // 添加变量定义
-      variablesContent += Array.from(uniqueVariables.entries())
-        .map(([name, value]) => `  ${name}: ${value};`)
-        .join('\n') + '\n';
+      // 如果需要导出变量映射关系
+      if (this.options.exportMap) {
+        const mapContent = JSON.stringify(Object.fromEntries(this.variableMap), null, 2);
+        const mapFilePath = outputFilePath.replace(/.css$/, '.map.json');
+        await this.writeGeneratedFile(mapFilePath, mapContent);
+      }
     }
 
-    variablesContent += '}\n';
+    // 生成index.css文件用于全量引入，合并模式下包含已有的拆分文件
+    const indexFiles = this.options.merge
+      ? Array.from(new Set([...this.getExistingVariableFiles().map(file => path.basename(file)), ...generatedFiles]))
+      : generatedFiles;
+    // 需要引入变量文件时始终生成 index.css 作为引入入口
+    if (this.options.splitByFolder && (indexFiles.length >= 2 || this.options.injectImport && indexFiles.length > 0)) {
+      const indexContent = indexFiles
+        .map(file => `@import url("${file}");`)
+        .join('\n');
+      
+      const variablesDir = path.join(this.options.directory, 'variables');
+      const indexFilePath = path.join(variablesDir, 'index.css');
+      
+      await this.writeGeneratedFile(indexFilePath, indexContent);
+      this.log(`✨ 生成全量引入文件: ${path.relative(this.options.directory, indexFilePath)}`);
+      this.variablesEntry = indexFilePath;
+    }
+  }
 
+  /**
+   * 已有的变量文件：单文件模式为 outputFile，按文件夹拆分时为 variables 目录下的拆分文件
+   */
+  private getExistingVariableFiles(): string[] {
+    if (!this.options.splitByFolder) {
+      const filePath = path.join(this.options.directory, this.options.outputFile);
+      return fs.existsSync(filePath) ? [filePath] : [];
+    }
+    const variablesDir = path.join(this.options.directory, 'variables');
+    if (!fs.existsSync(variablesDir)) {
+      return [];
+    }
+    const prefix = this.options.outputFile.replace(/\.css$/, '-');
+    return fs.readdirSync(variablesDir)
+      .filter(file => file.startsWith(prefix) && file.endsWith('.css'))
+      .sort()
+      .map(file => path.join(variablesDir, file));
+  }
 
-    // 处理文件名冲突
-    let outputFilePath = path.join(this.options.directory, this.options.outputFile);
-    let counter = 1;
-    const ext = path.extname(outputFilePath);
-    const base = outputFilePath.slice(0, -ext.length);
+  /**
+   * 合并模式下读取已有变量文件中的定义，相同的值沿用原变量名
+   */
+  private async loadExistingVariables(): Promise<void> {
+    if (!this.options.merge) {
+      return;
+    }
+    for (const file of this.getExistingVariableFiles()) {
+      const parsed = await this.parseStyleFile(file);
+      parsed.roots.forEach(root => collectCustomProperties(root, this.existingVariables));
+    }
+    // 之前声明在组件作用域内的变量不会被当作自定义属性再次提取
+    const manifestPath = path.join(this.options.directory, this.options.manifestFile);
+    if (fs.existsSync(manifestPath)) {
+      const manifest: ExtractionManifest = JSON.parse(await fs.promises.readFile(manifestPath, 'utf-8'));
+      (manifest.scoped || []).forEach(item => item.variables.forEach(name => this.scopedVariables.add(name)));
+    }
+    if (this.existingVariables.size > 0) {
+      this.existingIndex = createTokenIndex(this.existingVariables);
+      this.log(`♻️ 合并模式：沿用已有变量文件中的 ${this.existingVariables.size} 个变量`);
+    }
+  }
 
-    while (fs.existsSync(outputFilePath)) {
-      outputFilePath = `${base}-${counter}${ext}`;
-      counter++;
+  /**
+   * 在已有变量文件的 :root 中追加新变量，已有变量（包括手动修改的取值）及文件其余内容保持不变
+   */
+  private async mergeVariablesFile(filePath: string, groups: Array<[string, Array<[string, string]>]>): Promise<string> {
+    const parsed = await this.parseStyleFile(filePath);
+    const root = parsed.roots[0];
+    let rootRule = root.nodes.find(node => node.type === 'rule' && node.selector.trim() === ':root') as postcss.Rule | undefined;
+    if (!rootRule) {
+      rootRule = postcss.rule({ selector: ':root', raws: { after: '\n' } });
+      root.prepend(rootRule);
     }
 
-    // 写入文件
-    await fs.promises.writeFile(outputFilePath, variablesContent);
-    console.log(`✨ 生成变量文件: ${path.basename(outputFilePath)}`);
-    generatedFiles.push(path.basename(outputFilePath));
+    const added: Array<[string, string]> = [];
+    for (const [folder, entries] of groups) {
+      const newEntries = entries.filter(([name]) => !this.existingVariables.has(name));
+      if (newEntries.length === 0) {
+        continue;
+      }
+      const declarations = newEntries.map(([name, value]) => postcss.decl({ prop: name, value, raws: { before: '\n  ', between: ': ' } }));
+      // 已有同名分组注释时追加到该分组末尾（下一个分组注释之前），否则新建分组
+      const groupComment = rootRule.nodes.find(node => node.type === 'comment' && node.text.trim() === folder);
+      if (groupComment) {
+        let last: postcss.ChildNode = groupComment;
+        for (let next = groupComment.next(); next && next.type !== 'comment'; next = next.next()) {
+          last = next;
+        }
+        rootRule.insertAfter(last, declarations);
+      } else {
+        rootRule.append(postcss.comment({ text: folder, raws: { before: '\n\n  ' } }), ...declarations);
+      }
+      added.push(...newEntries);
+    }
+    if (added.length === 0) {
+      return parsed.content;
+    }
+    rootRule.raws.semicolon = true;
+    // 主题值写入已有的主题块，避免重复执行时堆积同名的主题块
+    mergeThemeBlocks(root, this.renderThemes(added));
+    return this.stringifyStyleFile(parsed);
+  }
 
-    // 如果文件名与原始文件名不同，输出提示信息
-    if (outputFilePath !== path.join(this.options.directory, this.options.outputFile)) {
-      console.log(`ℹ️ 提示：由于文件名冲突，变量文件已保存为：${path.basename(outputFilePath)}`);
+  /**
+   * 作用域模式下，本次新建且只在一个文件夹/文件中使用的变量改为声明在组件根选择器上；
+   * 跨作用域使用、或有使用位置不在组件根规则内的变量仍声明在 :root
+   */
+  private async declareScopedVariables(): Promise<void> {
+    if (this.options.scope === 'global') {
+      return;
     }
+    const values = new Map(this.extractedVariables.map(variable => [variable.variableName, variable.value]));
+    const scopeOf = (relativePath: string): string => this.options.scope === 'file' ? relativePath : path.posix.dirname(relativePath);
 
-    // 如果需要导出变量映射关系
-    if (this.options.exportMap) {
-      const mapContent = JSON.stringify(Object.fromEntries(this.variableMap), null, 2);
-      const mapFilePath = outputFilePath.replace(/.css$/, '.map.json');
-      await fs.promises.writeFile(mapFilePath, mapContent);
+    const usages = new Map<string, ExtractedVariable[]>();
+    for (const replacement of this.replacements) {
+      if (values.has(replacement.variableName)) {
+        usages.set(replacement.variableName, [...(usages.get(replacement.variableName) || []), replacement]);
+      }
+    }
+    const candidates = new Set(Array.from(usages.keys())
+      .filter(name => new Set(usages.get(name)!.map(usage => scopeOf(usage.filePath))).size === 1));
+
+    // 逐个文件确认使用位置均在组件根规则内
+    const files = new Map<string, { parsed: ParsedStyleFile; index: number; scopeRule?: postcss.Rule }>();
+    for (const relativePath of new Set(Array.from(candidates).flatMap(name => usages.get(name)!.map(usage => usage.filePath)))) {
+      const filePath = path.join(this.options.directory, relativePath);
+      const parsed = await this.parseStyleFile(filePath, (await this.readCurrentFile(filePath))!);
+      const index = parsed.regions.findIndex(region => !region.placeholders);
+      files.set(relativePath, { parsed, index, scopeRule: index === -1 ? undefined : findScopeRule(parsed.roots[index]) });
+    }
+    for (const name of candidates) {
+      const inScope = usages.get(name)!.every((usage) => {
+        const { parsed, index, scopeRule } = files.get(usage.filePath)!;
+        if (!scopeRule) {
+          return false;
+        }
+        const reference = usage.replacedValue || `var(${name})`;
+        const decl = this.getDeclarations({ ...parsed, roots: [parsed.roots[index]] })
+          .find(item => item.prop === usage.property && item.source?.start?.line === usage.line && item.value.includes(reference));
+        return !!decl && isInScope(decl, scopeRule);
+      });
+      if (!inScope) {
+        candidates.delete(name);
+      }
+    }
+
+    for (const [relativePath, { parsed, index, scopeRule }] of files) {
+      const names = Array.from(new Set(this.replacements
+        .filter(replacement => replacement.filePath === relativePath && candidates.has(replacement.variableName))
+        .map(replacement => replacement.variableName)));
+      if (names.length === 0 || !scopeRule) {
+        continue;
+      }
+      const { selector, created } = declareScopedVariables(parsed.roots[index], scopeRule,
+        names.map(name => [name, values.get(name)!]), this.options.scopeSelector);
+      await this.writeFile(path.join(this.options.directory, relativePath), this.stringifyStyleFile(parsed));
+      this.scopedDeclarations.push({ filePath: relativePath, selector, variables: names, created });
+    }
+    candidates.forEach(name => this.scopedVariables.add(name));
+    if (candidates.size > 0) {
+      this.log(`🎯 ${candidates.size} 个变量声明在组件作用域内`);
     }
   }
-     // 生成index.css文件用于全量引入
-    if (this.options.splitByFolder && generatedFiles.length >= 2) {
-      const indexContent = generatedFiles
-        .map(file => `@import url("${file}");`)
-        .join('\n');
-      
-      // 确保variables目录存在
-      const variablesDir = path.join(this.options.directory, 'variables');
-      if (!fs.existsSync(variablesDir)) {
-        fs.mkdirSync(variablesDir, { recursive: true });
+
+  /**
+   * 在改写后的源文件（或指定的入口样式文件）开头引入生成的变量文件，已引入时跳过
+   * CSS-in-JS 等无法引入样式文件的区域不处理
+   */
+  private async injectImports(): Promise<void> {
+    if (!this.options.injectImport) {
+      return;
+    }
+    const assetNames = new Set(this.extractedAssets.map(asset => asset.variableName));
+    const entry = typeof this.options.injectImport === 'string' ? path.resolve(this.options.directory, this.options.injectImport) : null;
+    const filesOf = (replacements: ExtractedVariable[]): string[] => entry
+      ? [entry]
+      : Array.from(new Set(replacements.map(replacement => path.join(this.options.directory, replacement.filePath))));
+
+    // 变量文件引入到所有改写过的文件，资源变量文件只引入到引用了资源变量的文件；importPath 只用于变量文件
+    if (this.variablesEntry) {
+      await this.injectImportInto(filesOf(this.replacements), this.variablesEntry, this.options.importPath || undefined);
+    }
+    if (this.assetsEntry) {
+      await this.injectImportInto(filesOf(this.replacements.filter(replacement => assetNames.has(replacement.variableName))), this.assetsEntry);
+    }
+    if (this.injectedImports.length > 0) {
+      this.log(`🔗 在 ${new Set(this.injectedImports.map(item => item.filePath)).size} 个文件中引入了变量文件`);
+    }
+  }
+
+  /**
+   * 在源文件中引入指定的生成文件，已引入时跳过
+   */
+  private async injectImportInto(files: string[], targetFile: string, alias?: string): Promise<void> {
+    for (const filePath of files) {
+      if (filePath === this.variablesEntry || filePath === this.assetsEntry) {
+        continue;
+      }
+      const content = await this.readCurrentFile(filePath);
+      if (content === null) {
+        this.warn(`入口样式文件 ${this.toRelativePath(filePath)} 不存在，跳过引入变量文件`);
+        continue;
+      }
+      const parsed = await this.parseStyleFile(filePath, content);
+      const index = parsed.regions.findIndex(region => !region.placeholders);
+      if (index === -1) {
+        continue;
+      }
+
+      const name = getImportRuleName(parsed.regions[index].syntax);
+      const specifier = getImportSpecifier(filePath, targetFile, alias);
+      const params = injectImport(parsed.roots[index], filePath, targetFile, { name, specifier });
+      if (params) {
+        await this.writeFile(filePath, this.stringifyStyleFile(parsed));
+        this.injectedImports.push({ filePath: this.toRelativePath(filePath), name, params });
       }
-      const indexFilePath = path.join(variablesDir, 'index.css');
-      
-      await fs.promises.writeFile(indexFilePath, indexContent);
-      console.log(`✨ 生成全量引入文件: ${path.relative(this.options.directory, indexFilePath)}`);
     }
   }
+
+  /**
+   * 按 formats 选项生成其他格式的导出文件，与变量文件放在同一目录
+   */
+  private async generateExportFiles(): Promise<void> {
+    if (this.extractedVariables.length === 0) {
+      return;
+    }
+
+    // 合并模式下导出文件同时包含已有变量
+    const uniqueVariables = new Map<string, ExportedVariable>();
+    for (const [name, value] of this.existingVariables) {
+      uniqueVariables.set(name, { name, value, property: '' });
+    }
+    for (const variable of this.getGlobalVariables()) {
+      uniqueVariables.set(variable.variableName, {
+        name: variable.variableName,
+        value: variable.value,
+        property: variable.property
+      });
+    }
+    const variables = Array.from(uniqueVariables.values());
+    const ownedFiles = await this.getOwnedFiles();
+
+    for (const format of this.options.formats) {
+      if (format === 'css') {
+        continue;
+      }
+      const formatter = this.options.formatters.find(item => item.name === format)!;
+      const preferredPath = path.join(this.options.directory, formatter.fileName(this.options.outputFile));
+
+      // 同名文件不是本工具生成的（如用户自己的 variables.ts）时不覆盖，改用带序号的文件名
+      let outputFilePath = preferredPath;
+      let counter = 1;
+      const ext = path.extname(preferredPath);
+      const base = preferredPath.slice(0, -ext.length);
+      while (fs.existsSync(outputFilePath) && !ownedFiles.has(this.toRelativePath(outputFilePath))) {
+        outputFilePath = `${base}-${counter}${ext}`;
+        counter++;
+      }
+
+      await this.writeGeneratedFile(outputFilePath, formatter.render(variables));
+      this.log(`✨ 生成${format}导出文件: ${this.toRelativePath(outputFilePath)}`);
+      if (outputFilePath !== preferredPath) {
+        this.log(`ℹ️ 提示：由于文件名冲突，${format}导出文件已保存为：${path.basename(outputFilePath)}`);
+      }
+    }
+  }
+
+  /**
+   * 本工具生成过的文件（相对 directory）：已有替换记录中的 generatedFiles 及本次运行已生成的文件
+   */
+  private async getOwnedFiles(): Promise<Set<string>> {
+    const ownedFiles = new Set(this.generatedFiles);
+    const manifestPath = path.join(this.options.directory, this.options.manifestFile);
+    if (fs.existsSync(manifestPath)) {
+      const manifest: ExtractionManifest = JSON.parse(await fs.promises.readFile(manifestPath, 'utf-8'));
+      (manifest.generatedFiles || []).forEach(file => ownedFiles.add(file));
+    }
+    return ownedFiles;
+  }
+
+  /**
+   * 生成主题变量块，并记录缺少主题取值的变量
+   */
+  private renderThemes(variables: Array<[string, string]>): string {
+    if (Object.keys(this.options.themes).length === 0) {
+      return '';
+    }
+
+    const { values, missing } = resolveThemeValues(this.options.themes, variables);
+    for (const [theme, names] of missing) {
+      if (names.length === 0) {
+        continue;
+      }
+      this.warn(`主题 ${theme} 缺少 ${names.length} 个变量的取值: ${names.join(', ')}`);
+      this.missingThemeValues.set(theme, Array.from(new Set([...(this.missingThemeValues.get(theme) || []), ...names])));
+    }
+    return renderThemeBlocks(values);
+  }
+
   /**
    * 生成资源变量文件
    */
   private async generateAssetsFile(): Promise<void> {
+    this.assetsEntry = null;
     // 如果不需要输出资源文件或没有提取到资源，直接返回
     if (!this.options.assetsOutput || this.extractedAssets.length === 0) {
       return;
@@ -421,35 +1881,568 @@ export class CssToVariable {
     assetsContent += '}\n';
 
     const assetsFilePath = path.join(this.options.directory, 'assets.css');
-    await fs.promises.writeFile(assetsFilePath, assetsContent);
-    console.log(`✨ 生成资源变量文件: assets.css`);
+    await this.writeGeneratedFile(assetsFilePath, assetsContent);
+    this.log(`✨ 生成资源变量文件: assets.css`);
+    this.assetsEntry = assetsFilePath;
+  }
+
+  /**
+   * 生成替换记录文件，供 restore 还原使用
+   */
+  private async generateManifestFile(): Promise<void> {
+    if (this.replacements.length === 0 && this.generatedFiles.length === 0 && this.injectedImports.length === 0 && this.scopedDeclarations.length === 0) {
+      return;
+    }
+
+    const manifestPath = path.join(this.options.directory, this.options.manifestFile);
+    const manifest: ExtractionManifest = {
+      version: MANIFEST_VERSION,
+      createdAt: new Date().toISOString(),
+      replacements: this.replacements,
+      generatedFiles: this.generatedFiles,
+      imports: this.injectedImports,
+      scoped: this.scopedDeclarations
+    };
+    // 合并模式下保留之前的替换记录，restore 可一次还原所有执行结果
+    if (this.options.merge && fs.existsSync(manifestPath)) {
+      const previous: ExtractionManifest = JSON.parse(await fs.promises.readFile(manifestPath, 'utf-8'));
+      if (previous.version === MANIFEST_VERSION) {
+        manifest.replacements = [...previous.replacements, ...this.replacements];
+        manifest.generatedFiles = Array.from(new Set([...previous.generatedFiles, ...this.generatedFiles]));
+        manifest.imports = [...(previous.imports || []), ...this.injectedImports];
+        manifest.scoped = [...(previous.scoped || []), ...this.scopedDeclarations];
+      }
+    }
+    await this.writeFile(manifestPath, JSON.stringify(manifest, null, 2));
+    this.log(`📋 生成替换记录文件: ${this.options.manifestFile}`);
   }
 
   /**
-   * 执行变量提取
+   * 查找匹配的文件，按路径排序，保证变量名与文件系统返回的顺序无关
    */
-  public async extract(): Promise<void> {
+  private async findFiles(includeGenerated = false): Promise<string[]> {
     const files = await glob(this.options.pattern, {
       cwd: this.options.directory,
-      absolute: true
+      absolute: true,
+      ignore: includeGenerated ? this.options.ignore : [...this.options.ignore, ...this.getGeneratedFilePatterns()]
     });
+    return files.sort();
+  }
 
-    console.log(`🔍 找到 ${files.length} 个文件需要处理`);  // 添加文件总数提示
+  /**
+   * 工具生成的文件（变量文件、资源文件、导出文件），提取时不扫描，避免主题块等被当作源码处理
+   */
+  private getGeneratedFilePatterns(): string[] {
+    const ext = path.extname(this.options.outputFile);
+    const base = this.options.outputFile.slice(0, this.options.outputFile.length - ext.length);
+    return [
+      // 文件名冲突时生成的 variables-1.css 等
+      `${base}?(-+([0-9]))${ext}`,
+      ...(this.options.splitByFolder ? ['variables/**'] : []),
+      'assets.css',
+      ...this.options.formats
+        .map(format => this.options.formatters.find(formatter => formatter.name === format))
+        .filter((formatter): formatter is ExportFormatter => !!formatter)
+        .map(formatter => formatter.fileName(this.options.outputFile))
+    ];
+  }
 
-    let processedFiles = 0;  // 添加已处理文件计数
-    for (const file of files) {
-      await this.parseFile(file);
-      processedFiles++;  // 增加已处理文件计数
-      const progress = Math.round((processedFiles / files.length) * 100);  // 计算进度百分比
-      console.log(`📊 总进度: ${progress}%`);  // 显示总进度
+  /**
+   * 提取前的准备：加载已有令牌、调色板、已有变量文件及SCSS变量定义
+   */
+  private async prepare(files: string[]): Promise<void> {
+    await this.loadTokens();
+    await this.loadPalette();
+    await this.loadExistingVariables();
+    if (this.options.scssVariables) {
+      await this.collectScssDefinitions(files);
+    }
+  }
+
+  /**
+   * 处理监听到的一批变更文件，返回实际处理的文件，出错的文件跳过并触发 error 事件
+   */
+  private async processChanges(changedFiles: string[]): Promise<string[]> {
+    this.fileErrors = [];
+    const matchedFiles = new Set(await this.findFiles());
+    const files: string[] = [];
+    for (const file of changedFiles.sort()) {
+      if (!matchedFiles.has(file) || !fs.existsSync(file)) {
+        // 已删除的文件不再计入使用报告
+        this.clearFileResults(file);
+        continue;
+      }
+      // 工具自身写入触发的变更
+      if (this.ownWrites?.get(file) === await fs.promises.readFile(file, 'utf-8')) {
+        continue;
+      }
+      // 重新处理前移除该文件之前的使用记录，避免报告中残留已修改的使用位置
+      this.clearFileResults(file);
+      files.push(file);
     }
 
-    await this.generateVariablesFile();
+    await this.runStaged(async () => {
+      await this.processFiles(files);
+      await this.declareScopedVariables();
+      if (this.extractedVariables.length > 0 || this.replacements.length > 0) {
+        await this.flushWatchOutput();
+      }
+    });
+    return files;
+  }
+
+  /**
+   * 监听模式下写入本批提取结果，写入后的变量视为已有变量，后续变更沿用其名称
+   */
+  private async flushWatchOutput(): Promise<void> {
+    if (this.options.formats.includes('css') && this.extractedVariables.length > 0) {
+      await this.generateVariablesFile();
+    }
+    await this.generateExportFiles();
     if (this.options.assetsOutput) {
       await this.generateAssetsFile();
     }
-    
-    console.log(`🎉 所有文件处理完成！共处理 ${files.length} 个文件，提取 ${this.extractedVariables.length} 个变量${this.options.assetsOutput ? `，${this.extractedAssets.length} 个资源变量` : ''}`);
+    await this.injectImports();
+    await this.generateManifestFile();
+
+    // 作用域变量只在所在组件内可用，不作为后续复用的已有变量
+    for (const variable of this.getGlobalVariables()) {
+      if (!this.existingVariables.has(variable.variableName)) {
+        this.existingVariables.set(variable.variableName, variable.value);
+      }
+    }
+    this.existingIndex = createTokenIndex(this.existingVariables);
+    this.extractedVariables = [];
+    this.replacements = [];
+    this.generatedFiles = [];
+    this.injectedImports = [];
+    this.scopedDeclarations = [];
+  }
+
+  /**
+   * 监听目录中的样式文件，只对变更的文件执行提取，并原地更新变量文件与使用报告
+   */
+  public async watch(watchOptions: WatchOptions = {}): Promise<WatchDisposable> {
+    // 监听期间变量文件始终原地更新，只追加新变量，停止监听后恢复原选项
+    const { merge } = this.options;
+    this.options.merge = true;
+    this.ownWrites = new Map();
+    await this.prepare(await this.findFiles());
+
+    const pending = new Set<string>();
+    let timer: NodeJS.Timeout | undefined;
+    let running = Promise.resolve();
+    let disposed = false;
+
+    const watchers = await this.watchDirectory((filePath) => {
+      if (disposed) {
+        return;
+      }
+      pending.add(filePath);
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        const changedFiles = Array.from(pending);
+        pending.clear();
+        running = running
+          .then(() => this.processChanges(changedFiles))
+          .then((files) => {
+            if (files.length > 0 && watchOptions.onChange) {
+              watchOptions.onChange(files);
+            }
+          })
+          .catch((error) => {
+            this.reportError(error);
+          });
+      }, watchOptions.debounce ?? 100);
+    });
+
+    this.log(`👀 正在监听 ${this.options.directory} 中的文件变更...`);
+    return {
+      dispose: async () => {
+        disposed = true;
+        clearTimeout(timer);
+        watchers.forEach(watcher => watcher.close());
+        await running;
+        this.options.merge = merge;
+        this.ownWrites = null;
+      }
+    };
+  }
+
+  /**
+   * 监听目录及其子目录中的文件变更；不支持 recursive 的环境（Linux 上 Node < 19.1）逐个监听子目录，新建的子目录随之加入监听
+   */
+  private async watchDirectory(onChange: (filePath: string) => void): Promise<fs.FSWatcher[]> {
+    const { directory } = this.options;
+    try {
+      return [fs.watch(directory, { recursive: true }, (_, fileName) => {
+        if (fileName) {
+          onChange(path.join(directory, fileName.toString()));
+        }
+      })];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') {
+        throw error;
+      }
+    }
+
+    const watchers = new Map<string, fs.FSWatcher>();
+    const watchFolder = (folder: string): void => {
+      if (watchers.has(folder)) {
+        return;
+      }
+      watchers.set(folder, fs.watch(folder, (_, fileName) => {
+        if (!fileName) {
+          return;
+        }
+        const filePath = path.join(folder, fileName.toString());
+        if (fs.existsSync(filePath) && fs.statSync(filePath).isDirectory()) {
+          watchFolder(filePath);
+        } else {
+          onChange(filePath);
+        }
+      }));
+    };
+    const folders = await glob('**/', { cwd: directory, absolute: true, ignore: ['**/node_modules/**'] });
+    [directory, ...folders].forEach(folder => watchFolder(path.resolve(folder)));
+    return Array.from(watchers.values());
+  }
+
+  /**
+   * 执行变量提取，所有写入在处理完成后统一落盘；
+   * 出错的文件被跳过并在结果中报告，failFast 时直接抛出且不写入任何文件
+   */
+  public async extract(): Promise<ExtractResult> {
+    const unknownFormats = this.options.formats
+      .filter(format => format !== 'css' && !this.options.formatters.some(formatter => formatter.name === format));
+    if (unknownFormats.length > 0) {
+      throw new Error(`未知的输出格式: ${unknownFormats.join(', ')}`);
+    }
+
+    const files = await this.findFiles();
+
+    this.log(`🔍 找到 ${files.length} 个文件需要处理`);
+
+    await this.prepare(files);
+    this.fileErrors = [];
+    await this.runStaged(async () => {
+      await this.processFiles(files);
+      await this.declareScopedVariables();
+
+      if (this.options.formats.includes('css')) {
+        await this.generateVariablesFile();
+      }
+      await this.generateExportFiles();
+      if (this.options.assetsOutput) {
+        await this.generateAssetsFile();
+      }
+      await this.injectImports();
+      await this.generateManifestFile();
+    });
+
+    const skippedFiles = this.fileErrors.map(error => error.filePath);
+    const result: ExtractResult = {
+      processedFiles: files.map(file => this.toRelativePath(file)).filter(file => !skippedFiles.includes(file)),
+      skippedFiles,
+      errors: this.fileErrors,
+      variables: [...this.extractedVariables, ...this.extractedAssets].map(variable => ({
+        variableName: variable.variableName,
+        value: variable.value,
+        property: variable.property,
+        filePath: this.toRelativePath(variable.filePath),
+        line: variable.line
+      }))
+    };
+
+    this.log(`🎉 所有文件处理完成！共处理 ${result.processedFiles.length} 个文件，提取 ${this.extractedVariables.length} 个变量${this.options.assetsOutput ? `，${this.extractedAssets.length} 个资源变量` : ''}`);
+    if (this.tokenSuggestions.length > 0) {
+      this.log(`🔎 有 ${this.tokenSuggestions.length} 处颜色与已有令牌相近，已生成新变量，请人工确认是否改用令牌`);
+    }
+    if (this.scaleMismatches.length > 0) {
+      this.log(`📏 有 ${this.scaleMismatches.length} 处取值不在刻度上${this.options.snapToScale ? '，已对齐到最接近的刻度值' : '，请人工确认'}`);
+    }
+    if (skippedFiles.length > 0) {
+      this.warn(`${skippedFiles.length} 个文件因出错被跳过，内容保持不变`);
+    }
+    if (this.options.dryRun) {
+      this.log(`👀 预览模式：共 ${this.fileDiffs.length} 个文件将被修改或创建，未写入任何文件`);
+    }
+    return result;
+  }
+
+  /**
+   * 检查匹配属性中仍然存在的字面值，不提取也不写入任何文件
+   */
+  public async check(): Promise<CheckViolation[]> {
+    const files = await this.findFiles();
+
+    this.checking = true;
+    this.violations = [];
+    try {
+      // 检查结果需要覆盖所有文件，出错时直接抛出
+      await this.processFiles(files, true);
+    } finally {
+      this.checking = false;
+    }
+    return this.violations;
+  }
+
+  /**
+   * 根据替换记录将变量还原为原始值，并删除生成的变量/资源文件
+   */
+  public async restore(): Promise<void> {
+    const manifestPath = path.join(this.options.directory, this.options.manifestFile);
+    if (!fs.existsSync(manifestPath)) {
+      throw new Error(`未找到替换记录文件: ${this.options.manifestFile}`);
+    }
+
+    const manifest: ExtractionManifest = JSON.parse(await fs.promises.readFile(manifestPath, 'utf-8'));
+    if (manifest.version !== MANIFEST_VERSION) {
+      throw new Error(`不支持的替换记录文件版本: ${manifest.version}`);
+    }
+
+    // 按文件分组替换记录
+    const replacementsByFile = new Map<string, ExtractedVariable[]>();
+    for (const replacement of manifest.replacements) {
+      if (!replacementsByFile.has(replacement.filePath)) {
+        replacementsByFile.set(replacement.filePath, []);
+      }
+      replacementsByFile.get(replacement.filePath)!.push(replacement);
+    }
+
+    const imports = manifest.imports || [];
+    const scoped = manifest.scoped || [];
+    for (const { filePath } of [...imports, ...scoped]) {
+      if (!replacementsByFile.has(filePath)) {
+        replacementsByFile.set(filePath, []);
+      }
+    }
+
+    let restoredCount = 0;
+    for (const [relativePath, replacements] of replacementsByFile) {
+      const filePath = path.join(this.options.directory, relativePath);
+      if (!fs.existsSync(filePath)) {
+        this.warn(`文件 ${relativePath} 不存在，跳过还原`);
+        continue;
+      }
+
+      let parsed = await this.parseStyleFile(filePath);
+
+      // 先移除注入的引入语句及作用域变量并重新解析，使声明的行号与替换记录一致
+      const fileImports = imports.filter(item => item.filePath === relativePath);
+      for (const injected of fileImports) {
+        if (!parsed.roots.some(root => removeImport(root, injected.name, injected.params))) {
+          this.warn(`${relativePath} 未找到 @${injected.name} ${injected.params}，跳过移除`);
+        }
+      }
+      const fileScoped = scoped.filter(item => item.filePath === relativePath);
+      if (fileScoped.length > 0) {
+        parsed.roots.forEach(root => removeScopedVariables(root, fileScoped));
+      }
+      if (fileImports.length > 0 || fileScoped.length > 0) {
+        parsed = await this.parseStyleFile(filePath, this.stringifyStyleFile(parsed));
+      }
+
+      const declarations = this.getDeclarations(parsed);
+      const includes: postcss.AtRule[] = [];
+      for (const root of parsed.roots) {
+        root.walkAtRules('include', atRule => {
+          includes.push(atRule);
+        });
+      }
+
+      for (const replacement of replacements) {
+        const reference = replacement.replacedValue || `var(${replacement.variableName})`;
+        const candidates: Array<postcss.Declaration | postcss.AtRule> = replacement.property.startsWith('@include ')
+          ? includes.filter(atRule => atRule.params === reference)
+          : declarations.filter(decl => decl.prop === replacement.property && decl.value === reference);
+        // 优先匹配记录的行号，行号发生偏移时按出现顺序匹配
+        const node = candidates.find(item => item.source?.start?.line === replacement.line) || candidates[0];
+        if (!node) {
+          this.warn(`${relativePath}:${replacement.line} 未找到 ${replacement.property}: ${reference}，跳过还原`);
+          continue;
+        }
+        if (node.type === 'atrule') {
+          node.params = replacement.value;
+        } else {
+          node.value = replacement.value;
+        }
+        restoredCount++;
+      }
+
+      await this.writeFile(filePath, this.stringifyStyleFile(parsed));
+      this.log(`♻️ 文件还原完成: ${relativePath}`);
+    }
+
+    for (const generatedFile of manifest.generatedFiles) {
+      await this.removeFile(path.join(this.options.directory, generatedFile));
+    }
+    await this.removeFile(manifestPath);
+
+    this.log(`🎉 还原完成！共还原 ${restoredCount} 处变量，删除 ${manifest.generatedFiles.length} 个生成文件`);
+  }
+
+  /**
+   * 将扫描文件中的 var() 引用替换为具体值（extract 的逆操作）
+   * properties 为空时处理所有属性，自定义属性的定义本身保持不变
+   */
+  public async inline(): Promise<void> {
+    // 生成的变量文件中的定义同样参与内联
+    const files = await this.findFiles(true);
+    const variableFiles = this.options.variableFiles.map(file => path.resolve(this.options.directory, file));
+
+    // 收集自定义属性定义，变量文件中的定义优先于扫描文件
+    const definitions: CustomPropertyMap = new Map();
+    const parsedFiles = new Map<string, ParsedStyleFile>();
+    for (const file of [...variableFiles, ...files]) {
+      if (parsedFiles.has(file)) {
+        continue;
+      }
+      if (!fs.existsSync(file)) {
+        throw new Error(`变量文件不存在: ${file}`);
+      }
+      const parsed = await this.parseStyleFile(file);
+      parsedFiles.set(file, parsed);
+      for (const root of parsed.roots) {
+        collectCustomProperties(root, definitions, (name, value, decl) => {
+          this.warn(`变量 ${name} 在 ${this.toRelativePath(file)}:${decl.source?.start?.line || 0} 存在不同取值 ${value}，已使用 ${definitions.get(name)}`);
+        });
+      }
+    }
+
+    this.log(`🔍 找到 ${definitions.size} 个变量定义，${files.length} 个文件需要处理`);
+
+    let inlinedCount = 0;
+    for (const file of files) {
+      const parsed = parsedFiles.get(file)!;
+      let fileCount = 0;
+      this.getDeclarations(parsed).forEach((decl) => {
+        if (decl.prop.startsWith('--') || !/var\(/i.test(decl.value)) {
+          return;
+        }
+        if (this.options.properties.length > 0 && !this.options.properties.includes(decl.prop)) {
+          return;
+        }
+        const result = resolveVarReferences(decl.value, definitions);
+        if (result.unresolved.length > 0) {
+          this.warn(`${this.toRelativePath(file)}:${decl.source?.start?.line || 0} 无法解析变量 ${result.unresolved.join(', ')}，保持原样`);
+        }
+        if (result.changed) {
+          decl.value = result.value;
+          fileCount++;
+        }
+      });
+
+      if (fileCount > 0) {
+        await this.writeFile(file, this.stringifyStyleFile(parsed));
+        this.log(`✅ 文件更新完成: ${this.toRelativePath(file)}，内联 ${fileCount} 处变量`);
+        inlinedCount += fileCount;
+      }
+    }
+
+    this.log(`🎉 内联完成！共替换 ${inlinedCount} 处变量引用`);
+  }
+
+  /**
+   * 在已解析的语法树上执行提取，不读写任何文件，供 PostCSS 插件等构建工具集成使用
+   * 同一文件重新处理（如热更新）时，先移除该文件之前的提取结果（变量、替换记录等），返回提取的变量数量
+   */
+  public async transformRoot(root: postcss.Root, filePath: string): Promise<number> {
+    if (!this.prepared) {
+      this.prepared = this.prepare([]).then(async () => {
+        if (this.options.ignore.length > 0) {
+          this.ignoredFiles = new Set(await glob(this.options.ignore, { cwd: this.options.directory, absolute: true }));
+        }
+      });
+    }
+    await this.prepared;
+    if (this.ignoredFiles.has(path.resolve(filePath))) {
+      return 0;
+    }
+
+    this.clearFileResults(filePath);
+    const declarations: postcss.Declaration[] = [];
+    root.walkDecls((decl) => {
+      declarations.push(decl);
+    });
+    return await this.processDeclarations(declarations, filePath) + await this.processAssetIncludes(root, filePath);
+  }
+
+  /**
+   * 移除文件的全部提取结果：变量、使用记录、替换记录、令牌建议与刻度检查结果
+   */
+  private clearFileResults(filePath: string): void {
+    const relativePath = this.toRelativePath(filePath);
+    this.forgetFile(filePath);
+    this.replacements = this.replacements.filter(replacement => replacement.filePath !== relativePath);
+    this.tokenSuggestions = this.tokenSuggestions.filter(suggestion => suggestion.filePath !== relativePath);
+    this.scaleMismatches = this.scaleMismatches.filter(mismatch => mismatch.filePath !== relativePath);
+  }
+
+  /**
+   * 移除文件之前提取的变量及使用记录，仍被其他文件使用的变量保留
+   */
+  private forgetFile(filePath: string): void {
+    for (const [key, report] of this.variableMap) {
+      report.usages = report.usages.filter(usage => usage.filePath !== filePath);
+      report.usageCount = report.usages.length;
+      if (report.usageCount === 0) {
+        this.variableMap.delete(key);
+      }
+    }
+
+    const stillUsed = new Set(Array.from(this.variableMap.values()).map(report => report.variableName));
+    const removed = new Set(this.extractedVariables
+      .filter(variable => variable.filePath === filePath && !stillUsed.has(variable.variableName))
+      .map(variable => variable.variableName));
+    this.extractedVariables = this.extractedVariables.filter(variable => !removed.has(variable.variableName));
+    this.extractedAssets = this.extractedAssets.filter(asset => asset.filePath !== filePath || stillUsed.has(asset.variableName));
+    const assetNames = new Set(this.extractedAssets.map(asset => asset.variableName));
+    for (const [key, name] of this.assetIndex) {
+      if (!assetNames.has(name)) {
+        this.assetIndex.delete(key);
+      }
+    }
+    for (const [key, name] of this.dedupeIndex) {
+      if (removed.has(name)) {
+        this.dedupeIndex.delete(key);
+      }
+    }
+  }
+
+  /**
+   * 获取当前提取结果对应的变量文件内容（单文件格式）
+   */
+  public getVariablesContent(): string {
+    return this.renderVariablesContent(this.groupVariables(this.getVariablesByFolder()));
+  }
+
+  /**
+   * 获取各主题中缺少取值的变量（主题名 -> 变量名列表）
+   */
+  public getMissingThemeValues(): Record<string, string[]> {
+    return Object.fromEntries(this.missingThemeValues);
+  }
+
+  /**
+   * 获取与已有令牌相近（在色差阈值内）但未自动替换的颜色
+   */
+  public getTokenSuggestions(): TokenSuggestion[] {
+    return this.tokenSuggestions;
+  }
+
+  /**
+   * 获取不在刻度上的 spacing、radius 取值及对齐后的值
+   */
+  public getScaleMismatches(): ScaleMismatch[] {
+    return this.scaleMismatches;
+  }
+
+  /**
+   * 获取 dryRun 模式下记录的文件差异
+   */
+  public getFileDiffs(): FileDiff[] {
+    return this.fileDiffs;
   }
 
   /**
@@ -458,4 +2451,15 @@ export class CssToVariable {
   public getVariableReport(): VariableReport[] {
     return Array.from(this.variableMap.values());
   }
+
+  /**
+   * 获取结构化的使用报告：使用次数、近似重复的值、仅使用一次的变量及字面值最多的文件
+   * 文件路径相对 directory
+   */
+  public getUsageReport(options: UsageReportOptions = {}): UsageReport {
+    return createUsageReport(this.getVariableReport().map(report => ({
+      ...report,
+      usages: report.usages.map(usage => ({ ...usage, filePath: this.toRelativePath(usage.filePath) }))
+    })), options);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,109 @@
+import postcss from 'postcss';
+import valueParser from 'postcss-value-parser';
+
+/**
+ * 自定义属性定义：变量名 -> 值
+ */
+export type CustomPropertyMap = Map<string, string>;
+
+interface ResolveResult {
+  /** 替换后的属性值 */
+  value: string;
+  /** 是否发生了替换 */
+  changed: boolean;
+  /** 无法解析（未定义且无回退值，或存在循环引用）的变量名 */
+  unresolved: string[];
+}
+
+/**
+ * 判断规则是否为全局作用域（:root / html）
+ */
+function isGlobalScope(node: postcss.Container | postcss.Document | undefined): boolean {
+  return node?.type === 'rule' && /^(:root|html)$/.test((node as postcss.Rule).selector.trim());
+}
+
+/**
+ * 收集样式树中的自定义属性定义
+ * :root/html 中的定义优先，同名变量存在不同取值时通过 onConflict 回调提示
+ */
+export function collectCustomProperties(
+  root: postcss.Root,
+  definitions: CustomPropertyMap,
+  onConflict?: (name: string, value: string, decl: postcss.Declaration) => void
+): void {
+  const globalNames = new Set<string>();
+  root.walkDecls(/^--/, (decl) => {
+    const isGlobal = isGlobalScope(decl.parent);
+    const existing = definitions.get(decl.prop);
+    if (existing === undefined || (isGlobal && !globalNames.has(decl.prop))) {
+      definitions.set(decl.prop, decl.value);
+    } else if (existing !== decl.value && onConflict) {
+      onConflict(decl.prop, decl.value, decl);
+    }
+    if (isGlobal) {
+      globalNames.add(decl.prop);
+    }
+  });
+}
+
+/**
+ * 将属性值中的 var(--x) / var(--x, fallback) 替换为具体值
+ * 支持变量值中的嵌套引用以及回退值中的嵌套 var()
+ */
+export function resolveVarReferences(
+  value: string,
+  definitions: CustomPropertyMap,
+  visiting: Set<string> = new Set()
+): ResolveResult {
+  const unresolved: string[] = [];
+  let changed = false;
+  const parsed = valueParser(value);
+
+  parsed.walk((node) => {
+    if (node.type !== 'function' || node.value.toLowerCase() !== 'var') {
+      return;
+    }
+
+    const nameNode = node.nodes.find(child => child.type === 'word');
+    const commaIndex = node.nodes.findIndex(child => child.type === 'div' && child.value === ',');
+    const fallback = commaIndex >= 0 ? valueParser.stringify(node.nodes.slice(commaIndex + 1)).trim() : undefined;
+    const name = nameNode?.value || '';
+
+    let resolved: string | undefined;
+    const missing: string[] = [];
+    if (definitions.has(name) && !visiting.has(name)) {
+      const nested = resolveVarReferences(definitions.get(name)!, definitions, new Set(visiting).add(name));
+      if (nested.unresolved.length === 0) {
+        resolved = nested.value;
+      } else {
+        missing.push(...nested.unresolved);
+      }
+    }
+    if (resolved === undefined && fallback !== undefined) {
+      const nested = resolveVarReferences(fallback, definitions, visiting);
+      if (nested.unresolved.length === 0) {
+        resolved = nested.value;
+      } else {
+        missing.push(...nested.unresolved);
+      }
+    }
+
+    if (resolved === undefined) {
+      unresolved.push(...(missing.length > 0 ? missing : [name]));
+      return false;
+    }
+
+    // 将 var() 节点替换为解析后的值
+    const replaced = node as unknown as valueParser.WordNode;
+    replaced.type = 'word';
+    replaced.value = resolved;
+    changed = true;
+    return false;
+  });
+
+  return {
+    value: changed ? valueParser.stringify(parsed.nodes) : value,
+    changed,
+    unresolved: Array.from(new Set(unresolved))
+  };
+}
@@ -0,0 +1,99 @@
+import { parseColor, RGBA, toHex } from './color';
+
+/**
+ * 调色板名称字典：不含透明度的十六进制颜色 -> 名称
+ */
+export type Palette = Map<string, string>;
+
+/** 色相分组，按色相角上限排列 */
+const HueFamilies: Array<[number, string]> = [
+  [15, 'red'],
+  [40, 'orange'],
+  [65, 'yellow'],
+  [90, 'lime'],
+  [150, 'green'],
+  [180, 'teal'],
+  [200, 'cyan'],
+  [245, 'blue'],
+  [265, 'indigo'],
+  [285, 'violet'],
+  [310, 'purple'],
+  [345, 'pink'],
+  [360, 'red']
+];
+
+/** 饱和度或色度（最大与最小通道之差）低于该值视为灰色，接近白色时 HSL 饱和度偏高，需同时参考色度 */
+const GRAY_SATURATION = 0.12;
+const GRAY_CHROMA = 0.08;
+
+/**
+ * RGB 转 HSL，色相为 0-360，饱和度与亮度为 0-1
+ */
+export function rgbToHsl(color: RGBA): [number, number, number] {
+  const r = color.r / 255;
+  const g = color.g / 255;
+  const b = color.b / 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  if (max === min) {
+    return [0, 0, l];
+  }
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  let h: number;
+  if (max === r) {
+    h = (g - b) / d + (g < b ? 6 : 0);
+  } else if (max === g) {
+    h = (b - r) / d + 2;
+  } else {
+    h = (r - g) / d + 4;
+  }
+  return [h * 60, s, l];
+}
+
+/**
+ * 亮度色阶，与 Tailwind 一致：50、100-900、950，数值越大越深
+ */
+function lightnessStep(lightness: number): number {
+  const step = Math.round((1 - lightness) * 10) * 100;
+  return step === 0 ? 50 : step === 1000 ? 950 : step;
+}
+
+/**
+ * 根据颜色生成语义名称，如 blue-700、gray-100-a50、white
+ * 调色板中存在相同颜色时使用调色板名称
+ */
+export function semanticColorName(color: RGBA, palette: Palette = new Map()): string {
+  const alpha = color.a < 1 ? `-a${Math.round(color.a * 100)}` : '';
+  const hex = toHex({ ...color, a: 1 });
+
+  const paletteName = palette.get(hex);
+  if (paletteName) {
+    return `${paletteName}${alpha}`;
+  }
+  if (hex === '#ffffff' || hex === '#000000') {
+    return `${hex === '#ffffff' ? 'white' : 'black'}${alpha}`;
+  }
+
+  const [hue, saturation, lightness] = rgbToHsl(color);
+  const chroma = (Math.max(color.r, color.g, color.b) - Math.min(color.r, color.g, color.b)) / 255;
+  const family = saturation < GRAY_SATURATION || chroma < GRAY_CHROMA
+    ? 'gray'
+    : HueFamilies.find(([limit]) => hue < limit)?.[1] || 'red';
+  return `${family}-${lightnessStep(lightness)}${alpha}`;
+}
+
+/**
+ * 将 { 名称: 颜色 } 字典转换为调色板，无法解析的颜色会被忽略
+ */
+export function createPalette(dictionary: Record<string, string>): Palette {
+  const palette: Palette = new Map();
+  for (const [name, value] of Object.entries(dictionary)) {
+    const color = parseColor(value);
+    if (color) {
+      palette.set(toHex({ ...color, a: 1 }), name);
+    }
+  }
+  return palette;
+}
@@ -0,0 +1,44 @@
+import type { PluginCreator } from 'postcss';
+import { CssToVariable, CssToVariableOptions } from './index';
+import { Presets } from './constant';
+
+/**
+ * PostCSS 插件选项，与 CssToVariable 的选项一致，directory 与 properties 可省略
+ */
+export interface PostcssPluginOptions extends Partial<Omit<CssToVariableOptions, 'dryRun'>> {
+  /** 共享的实例，用于在构建中的多个文件之间汇总提取结果 */
+  instance?: CssToVariable;
+}
+
+/**
+ * 根据插件选项创建实例，directory 默认为当前工作目录（用于生成变量名中的文件夹名），properties 默认为 colors 预设
+ */
+export function createPluginInstance(options: PostcssPluginOptions = {}): CssToVariable {
+  const { instance, ...rest } = options;
+  return instance || new CssToVariable({
+    ...rest,
+    directory: rest.directory || process.cwd(),
+    properties: rest.properties || Presets.colors.properties
+  });
+}
+
+/**
+ * PostCSS 插件：在构建流程中将字面值替换为 var()，不修改源文件
+ * 变量文件内容通过实例的 getVariablesContent() 获取，Vite/webpack 封装会将其输出为构建产物
+ */
+const cssToVariablePlugin: PluginCreator<PostcssPluginOptions> = (options = {}) => {
+  const cssToVariable = createPluginInstance(options);
+  return {
+    postcssPlugin: 'css-to-variable',
+    async Once(root, { result }) {
+      const filePath = root.source?.input.file || result.opts.from;
+      if (!filePath) {
+        return;  // 没有文件路径时无法生成变量名，保持原样
+      }
+      await cssToVariable.transformRoot(root, filePath);
+    }
+  };
+};
+cssToVariablePlugin.postcss = true;
+
+export default cssToVariablePlugin;
@@ -0,0 +1,280 @@
+import { deltaE, normalizeValue, parseColor, RGBA, toHex } from './color';
+import type { VariableReport } from './index';
+
+export type ReportFormat = 'json' | 'markdown' | 'html';
+
+export const REPORT_FORMATS: ReportFormat[] = ['json', 'markdown', 'html'];
+
+/** 各报告格式默认的文件扩展名 */
+export const REPORT_EXTENSIONS: Record<ReportFormat, string> = {
+  json: '.json',
+  markdown: '.md',
+  html: '.html'
+};
+
+export interface ReportLocation {
+  /** 相对 directory 的文件路径 */
+  filePath: string;
+  line: number;
+  property: string;
+}
+
+export interface ReportVariable {
+  variableName: string;
+  value: string;
+  /** 颜色值对应的十六进制色值，用于色块展示，非颜色为 undefined */
+  color?: string;
+  usageCount: number;
+  usages: ReportLocation[];
+}
+
+/**
+ * 取值相同或相近的一组变量，可考虑合并为一个
+ */
+export interface NearDuplicateGroup {
+  /** 该组的参照值（组内第一个变量的值） */
+  value: string;
+  variables: Array<{ variableName: string; value: string; deltaE: number }>;
+}
+
+export interface UsageReport {
+  summary: {
+    variables: number;
+    colors: number;
+    usages: number;
+    files: number;
+  };
+  /** 按使用次数从多到少排列 */
+  variables: ReportVariable[];
+  nearDuplicates: NearDuplicateGroup[];
+  /** 只被使用一次的变量名 */
+  singleUse: string[];
+  /** 字面值（被提取的值）最多的文件 */
+  topFiles: Array<{ filePath: string; count: number }>;
+}
+
+export interface UsageReportOptions {
+  /** 颜色视为近似重复的色差阈值(ΔE)，默认 3 */
+  tolerance?: number;
+  /** 输出字面值最多的前几个文件，默认 10 */
+  topFiles?: number;
+}
+
+export interface ReportFormatOptions {
+  /** 文件链接的前缀，为报告所在位置到 directory 的相对路径 */
+  linkBase?: string;
+}
+
+/** 报告中展示的值的最大长度，base64 图片等过长的值会被截断 */
+const MAX_VALUE_LENGTH = 80;
+
+const truncate = (value: string): string =>
+  value.length > MAX_VALUE_LENGTH ? `${value.slice(0, MAX_VALUE_LENGTH - 1)}…` : value;
+
+const escapeHtml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const escapeMarkdown = (value: string): string => value.replace(/\|/g, '\\|');
+
+const locationText = (location: ReportLocation): string => `${location.filePath}:${location.line}`;
+
+const locationHref = (location: ReportLocation, linkBase = ''): string =>
+  `${linkBase}${location.filePath}#L${location.line}`;
+
+/**
+ * 将取值相同（归一化后）或色差不超过阈值的变量分组，只保留包含多个变量的组
+ */
+function findNearDuplicates(variables: ReportVariable[], tolerance: number): NearDuplicateGroup[] {
+  const grouped = new Set<string>();
+  const groups: NearDuplicateGroup[] = [];
+  const colors = new Map<string, RGBA | null>(variables.map(variable => [variable.variableName, parseColor(variable.value)]));
+
+  for (const seed of variables) {
+    if (grouped.has(seed.variableName)) {
+      continue;
+    }
+    const seedColor = colors.get(seed.variableName);
+    const members: NearDuplicateGroup['variables'] = [];
+    for (const variable of variables) {
+      if (grouped.has(variable.variableName) || variable === seed) {
+        continue;
+      }
+      const color = colors.get(variable.variableName);
+      const distance = seedColor && color
+        ? deltaE(seedColor, color)
+        : normalizeValue(seed.value) === normalizeValue(variable.value) ? 0 : Infinity;
+      if (distance <= tolerance) {
+        members.push({ variableName: variable.variableName, value: variable.value, deltaE: Math.round(distance * 100) / 100 });
+      }
+    }
+    if (members.length > 0) {
+      grouped.add(seed.variableName);
+      members.forEach(member => grouped.add(member.variableName));
+      groups.push({ value: seed.value, variables: [{ variableName: seed.variableName, value: seed.value, deltaE: 0 }, ...members] });
+    }
+  }
+  return groups;
+}
+
+/**
+ * 根据变量使用情况生成结构化报告
+ */
+export function createUsageReport(reports: VariableReport[], options: UsageReportOptions = {}): UsageReport {
+  const tolerance = options.tolerance ?? 3;
+  const topFileCount = options.topFiles ?? 10;
+
+  // 同一变量可能对应多个使用记录（去重、复用令牌时），按变量名合并
+  const byName = new Map<string, ReportVariable>();
+  for (const report of reports) {
+    if (!byName.has(report.variableName)) {
+      const color = parseColor(report.value);
+      byName.set(report.variableName, {
+        variableName: report.variableName,
+        value: report.value,
+        color: color ? toHex(color) : undefined,
+        usageCount: 0,
+        usages: []
+      });
+    }
+    const variable = byName.get(report.variableName)!;
+    variable.usages.push(...report.usages.map(usage => ({ filePath: usage.filePath, line: usage.line, property: usage.property })));
+    variable.usageCount = variable.usages.length;
+  }
+
+  const variables = Array.from(byName.values())
+    .sort((a, b) => b.usageCount - a.usageCount || a.variableName.localeCompare(b.variableName));
+
+  const fileCounts = new Map<string, number>();
+  for (const variable of variables) {
+    for (const usage of variable.usages) {
+      fileCounts.set(usage.filePath, (fileCounts.get(usage.filePath) || 0) + 1);
+    }
+  }
+
+  return {
+    summary: {
+      variables: variables.length,
+      colors: variables.filter(variable => variable.color).length,
+      usages: variables.reduce((sum, variable) => sum + variable.usageCount, 0),
+      files: fileCounts.size
+    },
+    variables,
+    nearDuplicates: findNearDuplicates(variables, tolerance),
+    singleUse: variables.filter(variable => variable.usageCount === 1).map(variable => variable.variableName),
+    topFiles: Array.from(fileCounts.entries())
+      .map(([filePath, count]) => ({ filePath, count }))
+      .sort((a, b) => b.count - a.count || a.filePath.localeCompare(b.filePath))
+      .slice(0, topFileCount)
+  };
+}
+
+const summaryText = (report: UsageReport): string =>
+  `共 ${report.summary.variables} 个变量（其中颜色 ${report.summary.colors} 个），${report.summary.usages} 处使用，分布在 ${report.summary.files} 个文件中`;
+
+/**
+ * Markdown 报告，文件位置链接到 文件#L行号
+ */
+function formatMarkdown(report: UsageReport, options: ReportFormatOptions): string {
+  const link = (location: ReportLocation): string => `[${locationText(location)}](${locationHref(location, options.linkBase)})`;
+  const lines = [
+    '# 变量使用报告',
+    '',
+    summaryText(report),
+    '',
+    '## 变量',
+    '',
+    '| 变量 | 值 | 使用次数 | 位置 |',
+    '|------|----|----------|------|',
+    ...report.variables.map(variable =>
+      `| \`${variable.variableName}\` | \`${escapeMarkdown(truncate(variable.value))}\` | ${variable.usageCount} | ${variable.usages.map(link).join('<br>')} |`)
+  ];
+
+  if (report.nearDuplicates.length > 0) {
+    lines.push('', '## 近似重复', '');
+    for (const group of report.nearDuplicates) {
+      lines.push(`- ${group.variables.map(item => `\`${item.variableName}\` (${escapeMarkdown(truncate(item.value))}${item.deltaE > 0 ? `, ΔE ${item.deltaE}` : ''})`).join('、')}`);
+    }
+  }
+  if (report.singleUse.length > 0) {
+    lines.push('', '## 仅使用一次的变量', '', ...report.singleUse.map(name => `- \`${name}\``));
+  }
+  if (report.topFiles.length > 0) {
+    lines.push('', '## 字面值最多的文件', '', '| 文件 | 数量 |', '|------|------|',
+      ...report.topFiles.map(file => `| ${escapeMarkdown(file.filePath)} | ${file.count} |`));
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * 独立的 HTML 页面，颜色变量显示色块
+ */
+function formatHtml(report: UsageReport, options: ReportFormatOptions): string {
+  const swatch = (color?: string): string => color ? `<span class="swatch" style="background: ${color}"></span>` : '';
+  const link = (location: ReportLocation): string =>
+    `<a href="${escapeHtml(locationHref(location, options.linkBase))}">${escapeHtml(locationText(location))}</a>`;
+  const colorOf = new Map(report.variables.map(variable => [variable.variableName, variable.color]));
+
+  const sections = [
+    '<h2>变量</h2>',
+    '<table>',
+    '<tr><th></th><th>变量</th><th>值</th><th>使用次数</th><th>位置</th></tr>',
+    ...report.variables.map(variable => `<tr><td>${swatch(variable.color)}</td><td><code>${escapeHtml(variable.variableName)}</code></td>`
+      + `<td><code>${escapeHtml(truncate(variable.value))}</code></td><td>${variable.usageCount}</td>`
+      + `<td>${variable.usages.map(link).join('<br>')}</td></tr>`),
+    '</table>'
+  ];
+  if (report.nearDuplicates.length > 0) {
+    sections.push('<h2>近似重复</h2>', '<ul>',
+      ...report.nearDuplicates.map(group => `<li>${group.variables.map(item => `${swatch(colorOf.get(item.variableName))}<code>${escapeHtml(item.variableName)}</code> ${escapeHtml(truncate(item.value))}${item.deltaE > 0 ? ` (ΔE ${item.deltaE})` : ''}`).join('，')}</li>`),
+      '</ul>');
+  }
+  if (report.singleUse.length > 0) {
+    sections.push('<h2>仅使用一次的变量</h2>', '<ul>',
+      ...report.singleUse.map(name => `<li>${swatch(colorOf.get(name))}<code>${escapeHtml(name)}</code></li>`),
+      '</ul>');
+  }
+  if (report.topFiles.length > 0) {
+    sections.push('<h2>字面值最多的文件</h2>', '<table>', '<tr><th>文件</th><th>数量</th></tr>',
+      ...report.topFiles.map(file => `<tr><td>${escapeHtml(file.filePath)}</td><td>${file.count}</td></tr>`),
+      '</table>');
+  }
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="zh-CN">',
+    '<head>',
+    '<meta charset="UTF-8">',
+    '<title>变量使用报告</title>',
+    '<style>',
+    'body { font-family: -apple-system, "Segoe UI", sans-serif; margin: 2em; color: #1f2937; }',
+    'table { border-collapse: collapse; margin-bottom: 2em; }',
+    'th, td { border: 1px solid #e5e7eb; padding: 4px 8px; text-align: left; vertical-align: top; }',
+    '.swatch { display: inline-block; width: 1.2em; height: 1.2em; margin-right: 4px; vertical-align: middle; border: 1px solid #d1d5db; border-radius: 3px; }',
+    '</style>',
+    '</head>',
+    '<body>',
+    '<h1>变量使用报告</h1>',
+    `<p>${escapeHtml(summaryText(report))}</p>`,
+    ...sections,
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * 按指定格式输出使用报告
+ */
+export function formatReport(report: UsageReport, format: ReportFormat, options: ReportFormatOptions = {}): string {
+  switch (format) {
+    case 'markdown':
+      return formatMarkdown(report, options);
+    case 'html':
+      return formatHtml(report, options);
+    default:
+      return JSON.stringify(report, null, 2) + '\n';
+  }
+}
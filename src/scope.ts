@@ -0,0 +1,109 @@
+import postcss from 'postcss';
+
+/** 变量的作用域：global 全部声明在 :root，folder/file 只在一个文件夹/文件中使用的变量声明在组件根选择器上 */
+export type ScopeMode = 'global' | 'folder' | 'file';
+
+/** 作用域内变量的声明位置：root 为组件根规则本身，where 为其前面新增的 :where(根选择器) 规则 */
+export type ScopeSelectorMode = 'root' | 'where';
+
+/**
+ * 声明在源文件中的作用域变量，记录在替换记录中供 restore 移除
+ */
+export interface ScopedDeclarations {
+  /** 相对 directory 的文件路径 */
+  filePath: string;
+  /** 声明所在规则的选择器 */
+  selector: string;
+  variables: string[];
+  /** 规则是否为新增的（移除变量后为空时一并删除） */
+  created: boolean;
+}
+
+/**
+ * 组件根规则：样式中第一个顶层规则，如 CSS Modules 中的 .demo
+ */
+export function findScopeRule(root: postcss.Root): postcss.Rule | undefined {
+  return root.nodes.find((node): node is postcss.Rule => node.type === 'rule' && !node.selector.startsWith(':where('));
+}
+
+const startsWithSelector = (selector: string, prefix: string): boolean =>
+  selector === prefix || selector.startsWith(prefix) && !/[\w-]/.test(selector[prefix.length]);
+
+/**
+ * 节点是否位于组件根规则之内：嵌套在根规则中，或所在规则的选择器均以根选择器开头（如 .demo .title）
+ */
+export function isInScope(node: postcss.Node, scopeRule: postcss.Rule): boolean {
+  for (let parent = node.parent; parent && parent.type !== 'root'; parent = parent.parent) {
+    if (parent === scopeRule) {
+      return true;
+    }
+    if (parent.type === 'rule') {
+      const selectors = (parent as postcss.Rule).selectors.map(selector => selector.trim());
+      if (selectors.every(selector => scopeRule.selectors.some(prefix => startsWithSelector(selector, prefix.trim())))) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * 在组件根规则（或其前面的 :where() 规则）中声明变量，已声明的变量跳过
+ */
+export function declareScopedVariables(root: postcss.Root, scopeRule: postcss.Rule, variables: Array<[string, string]>, mode: ScopeSelectorMode): { selector: string; created: boolean } {
+  const selector = mode === 'root' ? scopeRule.selector : `:where(${scopeRule.selectors.join(', ')})`;
+  let target = mode === 'root'
+    ? scopeRule
+    : root.nodes.find((node): node is postcss.Rule => node.type === 'rule' && node.selector === selector);
+  const created = !target;
+
+  if (!target) {
+    const indent = (scopeRule.first?.raws.before || '\n  ').replace(/^[^\n]*\n/, '');
+    target = postcss.rule({ selector, raws: { between: ' ', after: '\n', semicolon: true } });
+    const before = scopeRule.raws.before || '';
+    root.insertBefore(scopeRule, target);
+    // 新规则沿用根规则的前导空白，根规则与其空一行
+    target.raws.before = before;
+    scopeRule.raws.before = '\n\n';
+    for (const [name, value] of variables) {
+      target.append(postcss.decl({ prop: name, value, raws: { before: `\n${indent}`, between: ': ' } }));
+    }
+    return { selector, created };
+  }
+
+  const declared = new Set(target.nodes.filter(node => node.type === 'decl').map(node => (node as postcss.Declaration).prop));
+  const missing = variables.filter(([name]) => !declared.has(name));
+  for (const [name, value] of missing.reverse()) {
+    target.prepend(postcss.decl({ prop: name, value }));
+  }
+  return { selector, created };
+}
+
+/**
+ * 移除声明的作用域变量，新增的规则为空时一并删除
+ */
+export function removeScopedVariables(root: postcss.Root, declarations: ScopedDeclarations[]): number {
+  const findRule = (selector: string): postcss.Rule | undefined =>
+    root.nodes.find((node): node is postcss.Rule => node.type === 'rule' && node.selector === selector);
+  let removed = 0;
+  for (const { selector, variables } of declarations) {
+    findRule(selector)?.each((node) => {
+      if (node.type === 'decl' && variables.includes(node.prop)) {
+        node.remove();
+        removed++;
+      }
+    });
+  }
+  // 监听模式下同一规则可能分多次追加变量，全部移除后再删除空规则，并恢复根规则的前导空白
+  for (const { selector } of declarations.filter(item => item.created)) {
+    const rule = findRule(selector);
+    if (rule && rule.nodes.length === 0) {
+      const next = rule.next();
+      if (next) {
+        next.raws.before = rule.raws.before;
+      }
+      rule.remove();
+    }
+  }
+  return removed;
+}
@@ -0,0 +1,179 @@
+import postcss from 'postcss';
+import valueParser from 'postcss-value-parser';
+
+/**
+ * SCSS 变量定义
+ */
+export interface ScssVariable {
+  /** 变量名（不含 $） */
+  name: string;
+  /** 定义时的原始值（已去除 !default / !global） */
+  rawValue: string;
+  /** 解析 $a: $b 引用链后的值 */
+  value: string;
+  filePath: string;
+  line: number;
+  /** 是否可以转换为CSS自定义属性 */
+  convertible: boolean;
+  /** 无法转换的原因 */
+  reason?: string;
+}
+
+export type ScssVariableMap = Map<string, ScssVariable>;
+
+/** 可以原样保留在CSS自定义属性中的函数 */
+const CSS_FUNCTIONS = [
+  'rgb', 'rgba', 'hsl', 'hsla', 'hwb', 'lab', 'lch', 'oklab', 'oklch', 'color',
+  'linear-gradient', 'radial-gradient', 'conic-gradient',
+  'repeating-linear-gradient', 'repeating-radial-gradient', 'repeating-conic-gradient',
+  'url', 'var', 'calc', 'min', 'max', 'clamp', 'image-set'
+];
+
+const VARIABLE_PATTERN = /^\$([\w-]+)$/;
+const FLAG_PATTERN = /\s*!(default|global)\b/gi;
+
+/**
+ * 收集 SCSS 变量定义
+ * 仅收集顶层及带 !global 的定义，!default 在已有定义时不覆盖
+ */
+export function collectScssVariables(root: postcss.Root, filePath: string, definitions: ScssVariableMap): void {
+  root.walkDecls(/^\$/, (decl) => {
+    const flags = (decl.value.match(FLAG_PATTERN) || []).map(flag => flag.trim().slice(1).toLowerCase());
+    const isGlobal = decl.parent?.type === 'root' || flags.includes('global');
+    if (!isGlobal) {
+      return;  // 局部变量不转换
+    }
+
+    const name = decl.prop.slice(1);
+    if (flags.includes('default') && definitions.has(name)) {
+      return;
+    }
+
+    const rawValue = decl.value.replace(FLAG_PATTERN, '').trim();
+    definitions.set(name, {
+      name,
+      rawValue,
+      value: rawValue,
+      filePath,
+      line: decl.source?.start?.line || 0,
+      convertible: true
+    });
+  });
+}
+
+/**
+ * 检查值是否只包含可以转换的内容，返回无法转换的原因
+ */
+function checkConvertible(value: string): string | undefined {
+  let reason: string | undefined;
+  valueParser(value).walk((node) => {
+    if (reason || node.type !== 'function') {
+      return;
+    }
+    if (node.value === '') {
+      reason = 'SCSS map/list';
+    } else if (!CSS_FUNCTIONS.includes(node.value.toLowerCase())) {
+      reason = `SCSS函数 ${node.value}()`;
+    }
+  });
+  if (!reason && value.includes('#{')) {
+    reason = '插值表达式';
+  }
+  return reason;
+}
+
+/**
+ * 替换值中顶层的 $变量 引用
+ * 函数参数中的引用（如 rgba($a, .5)、darken($a, 10%)）无法转换为 var()，与 resolve 返回 undefined 的变量一起记录在 unresolved 中
+ */
+export function replaceScssReferences(
+  value: string,
+  resolve: (name: string) => string | undefined
+): { value: string; changed: boolean; unresolved: string[] } {
+  const unresolved: string[] = [];
+  let changed = false;
+  const parsed = valueParser(value);
+
+  for (const node of parsed.nodes) {
+    if (node.type === 'function') {
+      valueParser.walk(node.nodes, (child) => {
+        const nested = child.type === 'word' ? child.value.match(VARIABLE_PATTERN) : null;
+        if (nested) {
+          unresolved.push(nested[1]);
+        }
+      });
+      continue;
+    }
+
+    const match = node.type === 'word' ? node.value.match(VARIABLE_PATTERN) : null;
+    if (!match) {
+      continue;
+    }
+    const replacement = resolve(match[1]);
+    if (replacement === undefined) {
+      unresolved.push(match[1]);
+      continue;
+    }
+    node.value = replacement;
+    changed = true;
+  }
+
+  return {
+    value: changed ? valueParser.stringify(parsed.nodes) : value,
+    changed,
+    unresolved
+  };
+}
+
+/**
+ * 解析 $a: $b 引用链，并标记每个变量是否可以转换
+ */
+export function resolveScssVariables(definitions: ScssVariableMap): void {
+  const resolving = new Set<string>();
+  const resolved = new Set<string>();
+
+  const resolveVariable = (variable: ScssVariable): void => {
+    if (resolved.has(variable.name)) {
+      return;
+    }
+    if (resolving.has(variable.name)) {
+      variable.convertible = false;
+      variable.reason = '循环引用';
+      return;
+    }
+    resolving.add(variable.name);
+
+    // SCSS map、函数调用等无法转换，直接保留
+    const reason = checkConvertible(variable.rawValue);
+    if (reason) {
+      variable.convertible = false;
+      variable.reason = reason;
+      resolving.delete(variable.name);
+      resolved.add(variable.name);
+      return;
+    }
+
+    const result = replaceScssReferences(variable.rawValue, (name) => {
+      const target = definitions.get(name);
+      if (!target) {
+        return undefined;
+      }
+      resolveVariable(target);
+      return target.convertible ? target.value : undefined;
+    });
+
+    if (result.unresolved.length > 0) {
+      variable.convertible = false;
+      variable.reason = variable.reason || `引用了无法转换的变量 $${result.unresolved.join(', $')}`;
+    } else {
+      variable.value = result.value;
+    }
+
+    resolving.delete(variable.name);
+    resolved.add(variable.name);
+  };
+
+  for (const variable of definitions.values()) {
+    resolveVariable(variable);
+  }
+}
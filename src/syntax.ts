@@ -0,0 +1,280 @@
+import * as path from 'path';
+import postcss from 'postcss';
+import scss from 'postcss-scss';
+import less from 'postcss-less';
+import sugarss from 'sugarss';
+
+/**
+ * 文件中的一段样式区域
+ */
+export interface StyleRegion {
+  /** 样式内容在原文件中的起始偏移 */
+  start: number;
+  /** 样式内容在原文件中的结束偏移（不含） */
+  end: number;
+  /** 样式内容 */
+  content: string;
+  /** 样式内容起始行号（从1开始） */
+  line: number;
+  /** 解析使用的 PostCSS 语法，缺省为标准CSS */
+  syntax?: postcss.Syntax;
+  /** 占位符 -> 原始插值表达式，写回时还原 */
+  placeholders?: Map<string, string>;
+}
+
+/**
+ * 语法适配器：负责从文件中找出需要处理的样式区域
+ */
+export interface SyntaxAdapter {
+  /** 适配的文件扩展名，如 ['.vue'] */
+  extensions: string[];
+  /** 提取文件中的样式区域 */
+  extract(content: string, filePath: string): StyleRegion[];
+}
+
+/** 插值占位符，包含占位符的声明不会被提取 */
+export const PLACEHOLDER_PATTERN = /__css_to_variable_\d+__/;
+
+/** lang 属性 -> PostCSS 语法 */
+const LangSyntax: Record<string, postcss.Syntax | undefined> = {
+  css: undefined,
+  postcss: undefined,
+  scss: scss,
+  less: less,
+  sass: sugarss
+};
+
+/** LESS/Sass 的颜色函数，计算结果只在预处理时可用，不能写入CSS变量文件（与 CSS filter 同名的 saturate、invert 等除外） */
+const PREPROCESSOR_FUNCTIONS = [
+  'darken', 'lighten', 'desaturate', 'fade', 'fadein', 'fadeout', 'spin', 'mix', 'tint', 'shade', 'greyscale',
+  'adjust-hue', 'adjust-color', 'scale-color', 'change-color', 'transparentize', 'opacify', 'complement', 'e', 'escape', '%'
+];
+
+/**
+ * 值是否包含 LESS 转义（~"..."）、LESS/Sass 函数（darken()、color.adjust() 等），这类值不能原样写入CSS变量文件
+ */
+export function isPreprocessorValue(value: string): boolean {
+  if (/(^|[\s,(])~\s*["'`]/.test(value)) {
+    return true;
+  }
+  return Array.from(value.matchAll(/(^|[^\w.-])([\w-]+\.)?([\w%-]+)\(/g))
+    .some(([, , namespace, name]) => !!namespace || PREPROCESSOR_FUNCTIONS.includes(name.toLowerCase()));
+}
+
+/**
+ * Sass 缩进语法中的 mixin 定义（=name）与引入（+name）行：sugarss 会将其当作选择器（并与下一行的选择器合并），
+ * 其中的声明不提取，避免生成错误的变量名
+ */
+export function isInSassMixin(node: postcss.Node): boolean {
+  for (let parent = node.parent; parent && parent.type !== 'root'; parent = parent.parent) {
+    if (parent.type === 'rule' && (parent as postcss.Rule).selector.split('\n').some(line => /^\s*[+=]/.test(line))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+const lineOf = (content: string, offset: number): number => content.slice(0, offset).split('\n').length;
+
+/**
+ * 整个文件即为样式内容的适配器
+ */
+function wholeFileAdapter(extensions: string[], syntax?: postcss.Syntax): SyntaxAdapter {
+  return {
+    extensions,
+    extract: (content) => [{ start: 0, end: content.length, content, line: 1, syntax }]
+  };
+}
+
+/**
+ * 查找 <template> 块的结束标签，跳过其中嵌套的 <template>，返回结束标签的起止位置
+ */
+function findTemplateClose(content: string, start: number): [number, number] | null {
+  const pattern = /<template(\s[^>]*)?>|<\/template\s*>/gi;
+  pattern.lastIndex = start;
+  let depth = 1;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(content))) {
+    depth += match[0].startsWith('</') ? -1 : 1;
+    if (depth === 0) {
+      return [match.index, pattern.lastIndex];
+    }
+  }
+  return null;
+}
+
+/**
+ * Vue/Svelte 单文件组件中的 <style> 块，按 lang 属性选择语法
+ * 只匹配顶层的块：跳过注释、<script> 与 <template> 的内容，避免脚本字符串中的 '<style>' 被当作样式块
+ */
+const styleBlockAdapter: SyntaxAdapter = {
+  extensions: ['.vue', '.svelte'],
+  extract(content) {
+    const regions: StyleRegion[] = [];
+    const pattern = /<!--[\s\S]*?-->|<(script|template|style)(\s[^>]*)?>/gi;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(content))) {
+      const tag = match[1]?.toLowerCase();
+      if (!tag) {
+        continue;
+      }
+      const start = pattern.lastIndex;
+      let close: [number, number] | null;
+      if (tag === 'template') {
+        close = findTemplateClose(content, start);
+      } else {
+        const closePattern = new RegExp(`</${tag}\\s*>`, 'gi');
+        closePattern.lastIndex = start;
+        const closeMatch = closePattern.exec(content);
+        close = closeMatch && [closeMatch.index, closePattern.lastIndex];
+      }
+      if (!close) {
+        break;
+      }
+      pattern.lastIndex = close[1];
+      if (tag !== 'style') {
+        continue;
+      }
+
+      const lang = (match[2] || '').match(/\blang\s*=\s*["']?([\w-]+)/i)?.[1].toLowerCase() || 'css';
+      if (!(lang in LangSyntax)) {
+        continue;  // 不支持的语法（如 stylus）保持原样
+      }
+      regions.push({
+        start,
+        end: close[0],
+        content: content.slice(start, close[0]),
+        line: lineOf(content, start),
+        syntax: LangSyntax[lang]
+      });
+    }
+    return regions;
+  }
+};
+
+/**
+ * 查找模板字符串结束位置，跳过 ${} 插值及其中嵌套的字符串
+ */
+function findTemplateEnd(content: string, start: number): { end: number; expressions: Array<[number, number]> } | null {
+  const expressions: Array<[number, number]> = [];
+  let index = start;
+  while (index < content.length) {
+    const char = content[index];
+    if (char === '\\') {
+      index += 2;
+      continue;
+    }
+    if (char === '`') {
+      return { end: index, expressions };
+    }
+    if (char === '$' && content[index + 1] === '{') {
+      // 按括号深度找到插值结束位置
+      const expressionStart = index;
+      let depth = 0;
+      let quote: string | null = null;
+      for (index += 1; index < content.length; index++) {
+        const current = content[index];
+        if (quote) {
+          if (current === '\\') {
+            index++;
+          } else if (current === quote) {
+            quote = null;
+          }
+          continue;
+        }
+        if (current === '"' || current === '\'' || current === '`') {
+          quote = current;
+        } else if (current === '{') {
+          depth++;
+        } else if (current === '}' && --depth === 0) {
+          break;
+        }
+      }
+      expressions.push([expressionStart, index + 1]);
+    }
+    index++;
+  }
+  return null;
+}
+
+/**
+ * styled-components / emotion 等 CSS-in-JS 的模板字符串
+ * 插值表达式替换为占位符后按 SCSS 语法解析（支持 & 嵌套）
+ */
+const cssInJsAdapter: SyntaxAdapter = {
+  extensions: ['.js', '.jsx', '.ts', '.tsx'],
+  extract(content) {
+    const regions: StyleRegion[] = [];
+    const pattern = /\b(?:styled(?:\.[\w$]+|\([^()]*\))(?:\.attrs\([^()]*\))?|css|createGlobalStyle|keyframes|injectGlobal)\s*`/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(content))) {
+      const start = match.index + match[0].length;
+      const template = findTemplateEnd(content, start);
+      if (!template) {
+        break;
+      }
+
+      const placeholders = new Map<string, string>();
+      let styleContent = '';
+      let cursor = start;
+      for (const [expressionStart, expressionEnd] of template.expressions) {
+        const placeholder = `__css_to_variable_${placeholders.size}__`;
+        placeholders.set(placeholder, content.slice(expressionStart, expressionEnd));
+        // 独占一条语句的插值（如 mixin）使用注释占位，其余作为普通值
+        const statement = /(^|[;{}])\s*$/.test(content.slice(cursor, expressionStart))
+          && /^\s*;?\s*($|[\n}])/.test(content.slice(expressionEnd, expressionEnd + 20));
+        styleContent += content.slice(cursor, expressionStart) + (statement ? `/*${placeholder}*/` : placeholder);
+        cursor = expressionEnd;
+      }
+      styleContent += content.slice(cursor, template.end);
+
+      regions.push({
+        start,
+        end: template.end,
+        content: styleContent,
+        line: lineOf(content, start),
+        syntax: scss,
+        placeholders
+      });
+      pattern.lastIndex = template.end + 1;
+    }
+    return regions;
+  }
+};
+
+/**
+ * 内置的语法适配器
+ */
+export const defaultAdapters: SyntaxAdapter[] = [
+  wholeFileAdapter(['.css', '.pcss', '.postcss']),
+  wholeFileAdapter(['.scss'], scss),
+  wholeFileAdapter(['.less'], less),
+  wholeFileAdapter(['.sass'], sugarss),
+  styleBlockAdapter,
+  cssInJsAdapter
+];
+
+/**
+ * 根据文件扩展名查找适配器，未匹配时按标准CSS处理
+ */
+export function findAdapter(filePath: string, adapters: SyntaxAdapter[]): SyntaxAdapter {
+  const ext = path.extname(filePath).toLowerCase();
+  return adapters.find(adapter => adapter.extensions.includes(ext)) || defaultAdapters[0];
+}
+
+/**
+ * 将处理后的样式区域写回原文件内容，样式区域以外的内容保持不变
+ */
+export function replaceRegions(content: string, regions: StyleRegion[], outputs: string[]): string {
+  let result = '';
+  let cursor = 0;
+  regions.forEach((region, index) => {
+    let output = outputs[index];
+    for (const [placeholder, expression] of region.placeholders || []) {
+      output = output.split(`/*${placeholder}*/`).join(expression).split(placeholder).join(expression);
+    }
+    result += content.slice(cursor, region.start) + output;
+    cursor = region.end;
+  });
+  return result + content.slice(cursor);
+}
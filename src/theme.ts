@@ -0,0 +1,95 @@
+import postcss from 'postcss';
+import { normalizeValue } from './color';
+
+/**
+ * 主题定义：主题名 -> { 变量名或原始值: 主题下的取值 }
+ * 例如 { dark: { '--primary': '#fff', '#0D3376': '#1a1a1a' } }
+ */
+export type ThemeDefinitions = Record<string, Record<string, string>>;
+
+interface ThemeResult {
+  /** 主题名 -> 变量定义列表 */
+  values: Map<string, Array<[string, string]>>;
+  /** 主题名 -> 缺少取值的变量名 */
+  missing: Map<string, string[]>;
+}
+
+/** 会额外生成 prefers-color-scheme 媒体查询的主题 */
+const COLOR_SCHEMES = ['dark', 'light'];
+
+/**
+ * 按变量名或原始值为每个主题匹配变量取值
+ */
+export function resolveThemeValues(themes: ThemeDefinitions, variables: Array<[string, string]>): ThemeResult {
+  const values = new Map<string, Array<[string, string]>>();
+  const missing = new Map<string, string[]>();
+
+  for (const [theme, mapping] of Object.entries(themes)) {
+    // 原始值按归一化后的形式匹配，#FFF 与 #ffffff 视为相同
+    const byValue = new Map<string, string>();
+    for (const [key, value] of Object.entries(mapping)) {
+      if (!key.startsWith('--')) {
+        byValue.set(normalizeValue(key), value);
+      }
+    }
+
+    const themeValues: Array<[string, string]> = [];
+    const themeMissing: string[] = [];
+    for (const [name, value] of variables) {
+      const themeValue = mapping[name] ?? byValue.get(normalizeValue(value));
+      if (themeValue === undefined) {
+        themeMissing.push(name);
+      } else {
+        themeValues.push([name, themeValue]);
+      }
+    }
+    values.set(theme, themeValues);
+    missing.set(theme, themeMissing);
+  }
+
+  return { values, missing };
+}
+
+/**
+ * 生成主题变量块：[data-theme="x"]，dark/light 主题额外生成 prefers-color-scheme 媒体查询
+ */
+export function renderThemeBlocks(values: Map<string, Array<[string, string]>>): string {
+  let content = '';
+  for (const [theme, themeValues] of values) {
+    if (themeValues.length === 0) {
+      continue;
+    }
+    const declarations = themeValues.map(([name, value]) => `  ${name}: ${value};`).join('\n');
+    content += `\n[data-theme="${theme}"] {\n${declarations}\n}\n`;
+
+    if (COLOR_SCHEMES.includes(theme)) {
+      // 未显式指定 data-theme 时跟随系统配色
+      const indented = themeValues.map(([name, value]) => `    ${name}: ${value};`).join('\n');
+      content += `\n@media (prefers-color-scheme: ${theme}) {\n  :root:not([data-theme]) {\n${indented}\n  }\n}\n`;
+    }
+  }
+  return content;
+}
+
+/**
+ * 将新生成的主题变量块合并到已有变量文件：声明追加到选择器（及媒体查询）相同的已有块中，没有对应块时才新建
+ */
+export function mergeThemeBlocks(root: postcss.Root, content: string): void {
+  const isSameNode = (a: postcss.ChildNode, b: postcss.ChildNode): boolean =>
+    a.type === 'rule' && b.type === 'rule' && a.selector.trim() === b.selector.trim()
+    || a.type === 'atrule' && b.type === 'atrule' && a.name === b.name && a.params.trim() === b.params.trim();
+  const merge = (target: postcss.Container, source: postcss.Container, before: string): void => {
+    for (const node of source.nodes || []) {
+      const existing = (target.nodes || []).find(child => isSameNode(child, node));
+      if (existing && existing.type === 'rule') {
+        existing.append(...(node as postcss.Rule).nodes.map(decl => decl.clone()));
+        existing.raws.semicolon = true;
+      } else if (existing && existing.type === 'atrule') {
+        merge(existing, node as postcss.AtRule, '\n  ');
+      } else {
+        target.append(node.clone({ raws: { ...node.raws, before } }));
+      }
+    }
+  };
+  merge(root, postcss.parse(content), '\n\n');
+}
@@ -0,0 +1,108 @@
+import { deltaE, normalizeValue, parseColor, RGBA } from './color';
+import { CustomPropertyMap, resolveVarReferences } from './inline';
+
+/**
+ * 已有设计令牌的索引
+ */
+export interface TokenIndex {
+  /** 所有令牌名 */
+  names: Set<string>;
+  /** 归一化后的值 -> 令牌名，同值时保留先定义的令牌 */
+  values: Map<string, string>;
+  /** 颜色令牌，用于近似匹配 */
+  colors: Array<{ name: string; value: string; color: RGBA }>;
+}
+
+export interface NearestToken {
+  name: string;
+  value: string;
+  deltaE: number;
+}
+
+/** DTCG 格式的引用：{color.blue.500} */
+const TOKEN_REFERENCE = /\{([^{}]+)\}/g;
+
+const toTokenName = (path: string[]): string => {
+  const name = path.join('-').replace(/[.\s]+/g, '-');
+  return name.startsWith('--') ? name : `--${name}`;
+};
+
+/**
+ * 将JSON设计令牌展开为自定义属性定义
+ * 支持扁平结构 { "--primary": "#000" }、嵌套结构 { "color": { "primary": "#000" } }
+ * 以及 W3C DTCG 格式 { "color": { "primary": { "$value": "#000" } } }，{a.b} 引用转换为 var(--a-b)
+ */
+export function parseTokenJson(json: unknown, definitions: CustomPropertyMap = new Map(), path: string[] = []): CustomPropertyMap {
+  if (typeof json === 'string' || typeof json === 'number') {
+    const value = String(json).replace(TOKEN_REFERENCE, (_, reference: string) => `var(${toTokenName(reference.split('.'))})`);
+    if (path.length > 0 && !definitions.has(toTokenName(path))) {
+      definitions.set(toTokenName(path), value);
+    }
+    return definitions;
+  }
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+    return definitions;
+  }
+
+  const record = json as Record<string, unknown>;
+  const leaf = '$value' in record ? record.$value : 'value' in record && typeof record.value !== 'object' ? record.value : undefined;
+  if (leaf !== undefined) {
+    return parseTokenJson(leaf, definitions, path);
+  }
+  for (const [key, value] of Object.entries(record)) {
+    // $type、$description 等元数据不是令牌
+    if (!key.startsWith('$')) {
+      parseTokenJson(value, definitions, [...path, key]);
+    }
+  }
+  return definitions;
+}
+
+/**
+ * 创建令牌索引，令牌之间的 var() 引用会先解析为具体值
+ */
+export function createTokenIndex(definitions: CustomPropertyMap): TokenIndex {
+  const index: TokenIndex = { names: new Set(), values: new Map(), colors: [] };
+  for (const [name, rawValue] of definitions) {
+    index.names.add(name);
+    const resolved = resolveVarReferences(rawValue, definitions);
+    if (resolved.unresolved.length > 0) {
+      continue;
+    }
+    const normalized = normalizeValue(resolved.value);
+    if (!index.values.has(normalized)) {
+      index.values.set(normalized, name);
+    }
+    const color = parseColor(resolved.value);
+    if (color) {
+      index.colors.push({ name, value: resolved.value, color });
+    }
+  }
+  return index;
+}
+
+/**
+ * 查找与值完全一致（归一化后）的令牌
+ */
+export function findToken(index: TokenIndex, value: string): string | undefined {
+  return index.values.get(normalizeValue(value));
+}
+
+/**
+ * 查找色差不超过 tolerance 的最接近的颜色令牌
+ */
+export function findNearestToken(index: TokenIndex, value: string, tolerance: number): NearestToken | undefined {
+  const color = parseColor(value);
+  if (!color || tolerance <= 0) {
+    return undefined;
+  }
+  let nearest: NearestToken | undefined;
+  for (const token of index.colors) {
+    const distance = deltaE(color, token.color);
+    // 距离相同时保留先定义的令牌（别名令牌通常定义在后）
+    if (distance <= tolerance && (!nearest || distance < nearest.deltaE)) {
+      nearest = { name: token.name, value: token.value, deltaE: distance };
+    }
+  }
+  return nearest && { ...nearest, deltaE: Math.round(nearest.deltaE * 100) / 100 };
+}
@@ -1,4 +0,0 @@
-declare module 'image-to-base64' {
-    function imageToBase64(path: string): Promise<string>;
-    export default imageToBase64;
-}
\ No newline at end of file
@@ -0,0 +1,5 @@
+declare module 'postcss-less' {
+    import { Syntax } from 'postcss';
+    const less: Syntax;
+    export default less;
+}
@@ -0,0 +1,5 @@
+declare module 'sugarss' {
+    import { Syntax } from 'postcss';
+    const sugarss: Syntax;
+    export default sugarss;
+}
@@ -0,0 +1,61 @@
+import postcss from 'postcss';
+import cssToVariablePlugin, { createPluginInstance, PostcssPluginOptions } from './postcss';
+
+/** 需要处理的样式模块，包括 Vue/Svelte 样式块（如 App.vue?vue&type=style&lang.css） */
+const STYLE_MODULE = /\.(css|scss|sass|less|pcss|postcss)(\?|$)/;
+
+interface ViteDevServer {
+  middlewares: {
+    use(handler: (req: { url?: string }, res: { setHeader(name: string, value: string): void; end(content: string): void }, next: () => void) => void): void;
+  };
+}
+
+interface PluginContext {
+  emitFile(file: { type: 'asset'; fileName: string; source: string }): string;
+}
+
+/**
+ * Vite 插件
+ */
+export interface VitePlugin {
+  name: string;
+  transform(code: string, id: string): Promise<{ code: string; map: null } | undefined>;
+  configureServer(server: ViteDevServer): void;
+  generateBundle(this: PluginContext): void;
+}
+
+/**
+ * Vite 插件：在样式编译为CSS后执行提取，构建时输出变量文件，开发时由开发服务器提供变量文件
+ * 需要在页面中引入 /variables.css（文件名与 outputFile 一致）
+ */
+export function cssToVariableVite(options: PostcssPluginOptions = {}): VitePlugin {
+  const cssToVariable = createPluginInstance(options);
+  const processor = postcss([cssToVariablePlugin({ instance: cssToVariable })]);
+  const fileName = options.outputFile || 'variables.css';
+
+  return {
+    name: 'css-to-variable',
+    async transform(code, id) {
+      if (!STYLE_MODULE.test(id) || /[?&](raw|url|inline)\b/.test(id)) {
+        return undefined;
+      }
+      const result = await processor.process(code, { from: id.split('?')[0] });
+      return { code: result.css, map: null };
+    },
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        if (req.url?.split('?')[0] !== `/${fileName}`) {
+          next();
+          return;
+        }
+        res.setHeader('Content-Type', 'text/css');
+        res.end(cssToVariable.getVariablesContent());
+      });
+    },
+    generateBundle() {
+      this.emitFile({ type: 'asset', fileName, source: cssToVariable.getVariablesContent() });
+    }
+  };
+}
+
+export default cssToVariableVite;
@@ -0,0 +1,63 @@
+import cssToVariablePlugin, { createPluginInstance, PostcssPluginOptions } from './postcss';
+import type { CssToVariable } from './index';
+
+const PLUGIN_NAME = 'CssToVariableWebpackPlugin';
+
+interface WebpackCompilation {
+  hooks: {
+    processAssets: { tap(options: { name: string; stage: number }, callback: () => void): void };
+  };
+  getAsset(name: string): unknown;
+  emitAsset(name: string, source: unknown): void;
+  updateAsset(name: string, source: unknown): void;
+}
+
+interface WebpackCompiler {
+  webpack: {
+    Compilation: { PROCESS_ASSETS_STAGE_ADDITIONAL: number };
+    sources: { RawSource: new (content: string) => unknown };
+  };
+  hooks: {
+    thisCompilation: { tap(name: string, callback: (compilation: WebpackCompilation) => void): void };
+  };
+}
+
+/**
+ * webpack 插件：配合 postcss-loader 使用，将变量文件输出为构建产物
+ *
+ * const cssToVariable = new CssToVariableWebpackPlugin({ properties: ['color'] });
+ * plugins: [cssToVariable]
+ * postcss-loader: { postcssOptions: { plugins: [cssToVariable.postcss()] } }
+ */
+export class CssToVariableWebpackPlugin {
+  private cssToVariable: CssToVariable;
+  private fileName: string;
+
+  constructor(options: PostcssPluginOptions = {}) {
+    this.cssToVariable = createPluginInstance(options);
+    this.fileName = options.outputFile || 'variables.css';
+  }
+
+  /**
+   * 在 postcss-loader 中使用的 PostCSS 插件，与本插件共享提取结果
+   */
+  public postcss(): ReturnType<typeof cssToVariablePlugin> {
+    return cssToVariablePlugin({ instance: this.cssToVariable });
+  }
+
+  public apply(compiler: WebpackCompiler): void {
+    const { Compilation, sources } = compiler.webpack;
+    compiler.hooks.thisCompilation.tap(PLUGIN_NAME, (compilation) => {
+      compilation.hooks.processAssets.tap({ name: PLUGIN_NAME, stage: Compilation.PROCESS_ASSETS_STAGE_ADDITIONAL }, () => {
+        const source = new sources.RawSource(this.cssToVariable.getVariablesContent());
+        if (compilation.getAsset(this.fileName)) {
+          compilation.updateAsset(this.fileName, source);
+        } else {
+          compilation.emitAsset(this.fileName, source);
+        }
+      });
+    });
+  }
+}
+
+export default CssToVariableWebpackPlugin;